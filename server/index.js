@@ -3,6 +3,15 @@ const http = require('http');
 const socketIo = require('socket.io');
 const cors = require('cors');
 const { v4: uuidv4 } = require('uuid');
+const { GameSimulation } = require('../src/utils/gameSimulation');
+const { RoomSettingsValidator } = require('../src/utils/roomSettings');
+const { Teams } = require('../src/utils/teams');
+const { getTrack } = require('../src/tracks');
+const { InputBuffer, sanitizeInput } = require('./inputBuffer');
+const { RoomSnapshots } = require('./snapshots');
+const { SessionStore } = require('./sessions');
+const { ReplayRecorder } = require('./replays');
+const { BotDriver } = require('../src/utils/botDriver');
 
 const app = express();
 const server = http.createServer(app);
@@ -18,350 +27,405 @@ app.use(express.json());
 
 const rooms = new Map();
 const gameLoops = new Map();
+const inputBuffers = new Map();
+const roomSnapshots = new Map();
+const startTimers = new Map();
+const replays = new Map();
+const sessions = new SessionStore();
 
-const PHYSICS = {
-  FRICTION: 0.95,
-  TURN_SPEED: 0.08,
-  ACCELERATION: 0.5,
-  BRAKE_FORCE: 0.8,
-  MAX_SPEED: 8,
-  BOTTLE_SPEED: 12,
-  TRACK_WIDTH: 800,
-  TRACK_HEIGHT: 600
-};
-
-function createInitialGameState(roomId) {
-  return {
-    id: roomId,
-    players: [],
-    bottles: [],
-    powerUps: [],
-    gameStarted: false,
-    gameEnded: false,
-    winner: null,
-    raceTime: 0,
-    maxLaps: 3
-  };
-}
+const TICK_MS = 1000 / GameSimulation.TICK_RATE;
+const MAX_CATCH_UP_TICKS = 5;
 
-function createCar(playerId, playerName, index) {
-  const colors = ['#ff4444', '#44ff44', '#4444ff', '#ffff44', '#ff44ff', '#44ffff'];
-  const startPositions = [
-    { x: 100, y: 100 },
-    { x: 100, y: 140 },
-    { x: 100, y: 180 },
-    { x: 100, y: 220 },
-    { x: 100, y: 260 },
-    { x: 100, y: 300 }
-  ];
+// Network snapshots are sent at their own rate, independent of the simulation tick
+const SNAPSHOT_RATE = Math.min(Number(process.env.SNAPSHOT_RATE) || 20, GameSimulation.TICK_RATE);
+const TICKS_PER_SNAPSHOT = Math.round(GameSimulation.TICK_RATE / SNAPSHOT_RATE);
+const SNAPSHOT_ENCODING = process.env.SNAPSHOT_ENCODING === 'binary' ? 'binary' : 'json';
 
-  return {
-    id: uuidv4(),
-    playerId,
-    playerName,
-    position: startPositions[index] || { x: 100, y: 100 + index * 40 },
-    velocity: { x: 0, y: 0 },
-    rotation: 0,
-    health: 100,
-    maxHealth: 100,
-    speed: 0,
-    maxSpeed: PHYSICS.MAX_SPEED,
-    acceleration: PHYSICS.ACCELERATION,
-    bottles: 5,
-    lap: 0,
-    lapTime: 0,
-    totalTime: 0,
-    isEliminated: false,
-    powerUps: [],
-    color: colors[index % colors.length]
-  };
+// How long a disconnected player's seat and car are kept for them to resume
+const RECONNECT_GRACE_MS = Number(process.env.RECONNECT_GRACE_MS) || 30000;
+
+// How long a host's start waits for everyone to ready up before going anyway
+const READY_TIMEOUT_MS = Number(process.env.READY_TIMEOUT_MS) || 15000;
+
+function getInputBuffer(roomId) {
+  if (!inputBuffers.has(roomId)) {
+    inputBuffers.set(roomId, new InputBuffer());
+  }
+  return inputBuffers.get(roomId);
 }
 
-function generatePowerUps() {
-  const powerUps = [];
-  const positions = generatePowerUpPositions(8);
-  const types = ['speed', 'shield', 'health', 'bottles'];
-
-  positions.forEach((position, index) => {
-    powerUps.push({
-      id: uuidv4(),
-      type: types[index % types.length],
-      position,
-      collected: false
+function updateGame(roomId) {
+  const room = rooms.get(roomId);
+  if (!room || room.gameState.phase === 'lobby' || room.gameState.phase === 'finished') return;
+
+  const gameState = room.gameState;
+  const inputBuffer = getInputBuffer(roomId);
+  const inputs = inputBuffer.nextTickInputs(gameState.players.map(car => car.playerId));
+
+  // Bots decide their keys from the current state, like a player would
+  room.players.forEach(player => {
+    const car = player.bot && gameState.players.find(c => c.playerId === player.id);
+    if (car) {
+      inputs[player.id] = BotDriver.computeInput(gameState, car, player.bot);
+    }
+  });
+
+  const replay = replays.get(roomId);
+  if (replay) {
+    replay.recordInputs(gameState, inputs);
+  }
+  const events = GameSimulation.step(gameState, inputs);
+
+  // Racers knocked out of the race watch the rest of it as spectators
+  events
+    .filter(event => event.type === 'eliminated')
+    .forEach(event => {
+      const player = room.players.find(p => p.id === event.playerId && !p.bot);
+      if (!player) return;
+
+      player.spectating = true;
+      io.to(roomId).emit('playerRoleChanged', { room, playerId: player.id });
     });
+
+  // Acknowledge inputs so clients can reconcile their predicted car
+  gameState.players.forEach(car => {
+    car.lastProcessedInput = inputBuffer.lastProcessedSequence(car.playerId);
   });
+}
+
+function broadcastSnapshot(roomId) {
+  const room = rooms.get(roomId);
+  const snapshots = roomSnapshots.get(roomId);
+  if (!room || !snapshots) return;
+
+  snapshots.record(room.gameState);
 
-  return powerUps;
+  const socketIds = io.sockets.adapter.rooms.get(roomId) || new Set();
+  socketIds.forEach(socketId => {
+    const socket = io.sockets.sockets.get(socketId);
+    if (socket) {
+      socket.emit('snapshot', snapshots.buildMessage(socketId, room.gameState));
+    }
+  });
 }
 
-function generatePowerUpPositions(count) {
-  const positions = [];
-  const margin = 50;
-  
-  for (let i = 0; i < count; i++) {
-    positions.push({
-      x: margin + Math.random() * (PHYSICS.TRACK_WIDTH - 2 * margin),
-      y: margin + Math.random() * (PHYSICS.TRACK_HEIGHT - 2 * margin)
-    });
+function stopGameLoop(roomId) {
+  const gameLoop = gameLoops.get(roomId);
+  if (gameLoop) {
+    clearInterval(gameLoop);
+    gameLoops.delete(roomId);
   }
-  
-  return positions;
 }
 
-function updateCarPhysics(car, input) {
-  if (input.up) {
-    const forwardX = Math.cos(car.rotation) * PHYSICS.ACCELERATION;
-    const forwardY = Math.sin(car.rotation) * PHYSICS.ACCELERATION;
-    car.velocity.x += forwardX;
-    car.velocity.y += forwardY;
-  }
-  
-  if (input.down) {
-    car.velocity.x *= PHYSICS.BRAKE_FORCE;
-    car.velocity.y *= PHYSICS.BRAKE_FORCE;
-  }
+// Runs the simulation at a fixed tick rate regardless of timer jitter and
+// broadcasts snapshots at the configured network send rate
+function startGameLoop(roomId) {
+  let lastTime = Date.now();
+  let accumulator = 0;
+  let lastSnapshotTick = -Infinity;
+
+  const gameLoop = setInterval(() => {
+    const room = rooms.get(roomId);
+    if (!room) {
+      stopGameLoop(roomId);
+      return;
+    }
+
+    const now = Date.now();
+    accumulator = Math.min(accumulator + now - lastTime, TICK_MS * MAX_CATCH_UP_TICKS);
+    lastTime = now;
 
-  const speed = Math.sqrt(car.velocity.x ** 2 + car.velocity.y ** 2);
-  if (speed > 0.5) {
-    if (input.left) {
-      car.rotation -= PHYSICS.TURN_SPEED * (speed / PHYSICS.MAX_SPEED);
+    while (accumulator >= TICK_MS) {
+      updateGame(roomId);
+      accumulator -= TICK_MS;
     }
-    if (input.right) {
-      car.rotation += PHYSICS.TURN_SPEED * (speed / PHYSICS.MAX_SPEED);
+
+    const gameState = room.gameState;
+    if (gameState.tick - lastSnapshotTick >= TICKS_PER_SNAPSHOT || gameState.phase === 'finished') {
+      broadcastSnapshot(roomId);
+      lastSnapshotTick = gameState.tick;
     }
-  }
 
-  car.velocity.x *= PHYSICS.FRICTION;
-  car.velocity.y *= PHYSICS.FRICTION;
+    if (room.gameState.phase === 'finished') {
+      stopGameLoop(roomId);
+    }
+  }, TICK_MS);
+
+  gameLoops.set(roomId, gameLoop);
+}
+
+// Finds a racer or spectator in a room by player id
+function findMember(room, playerId) {
+  return room.players.find(p => p.id === playerId) ||
+    room.spectators.find(s => s.id === playerId) ||
+    null;
+}
 
-  const currentSpeed = Math.sqrt(car.velocity.x ** 2 + car.velocity.y ** 2);
-  if (currentSpeed > car.maxSpeed) {
-    car.velocity.x = (car.velocity.x / currentSpeed) * car.maxSpeed;
-    car.velocity.y = (car.velocity.y / currentSpeed) * car.maxSpeed;
+function removeSession(roomId, playerId) {
+  const session = sessions.findByPlayer(roomId, playerId);
+  if (session) {
+    sessions.remove(session);
   }
+  return session;
+}
 
-  car.position.x += car.velocity.x;
-  car.position.y += car.velocity.y;
+// Deletes a room once its last racer is gone, sending any spectators home
+function closeRoom(room) {
+  stopGameLoop(room.id);
+  cancelPendingStart(room);
+
+  room.spectators.forEach(spectator => {
+    const session = removeSession(room.id, spectator.id);
+    const socket = session && session.socketId && io.sockets.sockets.get(session.socketId);
+    if (socket) {
+      socket.leave(room.id);
+      socket.emit('roomClosed');
+    }
+  });
 
-  keepInBounds(car);
+  inputBuffers.delete(room.id);
+  roomSnapshots.delete(room.id);
+  replays.delete(room.id);
+  rooms.delete(room.id);
+  console.log(`Room deleted: ${room.id}`);
 }
 
-function keepInBounds(car) {
-  const margin = 20;
-  
-  if (car.position.x < margin) {
-    car.position.x = margin;
-    car.velocity.x = Math.abs(car.velocity.x) * 0.5;
+function removePlayerFromRoom(roomId, playerId) {
+  const room = rooms.get(roomId);
+  if (!room) return;
+
+  const spectatorIndex = room.spectators.findIndex(s => s.id === playerId);
+  if (spectatorIndex !== -1) {
+    room.spectators.splice(spectatorIndex, 1);
+    removeSession(roomId, playerId);
+    io.to(roomId).emit('playerLeft', { room, playerId });
+    return;
+  }
+
+  const playerIndex = room.players.findIndex(p => p.id === playerId);
+  if (playerIndex === -1) return;
+
+  room.players.splice(playerIndex, 1);
+  const replay = replays.get(roomId);
+  if (replay && isRaceRunning(room)) {
+    replay.recordDeparture(room.gameState, playerId);
   }
-  if (car.position.x > PHYSICS.TRACK_WIDTH - margin) {
-    car.position.x = PHYSICS.TRACK_WIDTH - margin;
-    car.velocity.x = -Math.abs(car.velocity.x) * 0.5;
+  GameSimulation.removePlayer(room.gameState, playerId);
+  getInputBuffer(roomId).remove(playerId);
+  removeSession(roomId, playerId);
+
+  // Bots never keep a room open on their own
+  const humans = room.players.filter(p => !p.bot);
+  if (humans.length === 0) {
+    closeRoom(room);
+    return;
+  }
+
+  if (room.host === playerId) {
+    const nextHost = humans.find(p => p.connected) || humans[0];
+    room.host = nextHost.id;
   }
-  if (car.position.y < margin) {
-    car.position.y = margin;
-    car.velocity.y = Math.abs(car.velocity.y) * 0.5;
+  room.rematchVotes = room.rematchVotes.filter(id => id !== playerId);
+
+  io.to(roomId).emit('playerLeft', { room, playerId });
+
+  // The last player everyone was waiting for may have left
+  if (room.startDeadline && isEveryoneReady(room)) {
+    beginRace(room);
   }
-  if (car.position.y > PHYSICS.TRACK_HEIGHT - margin) {
-    car.position.y = PHYSICS.TRACK_HEIGHT - margin;
-    car.velocity.y = -Math.abs(car.velocity.y) * 0.5;
+  if (room.gameState.phase === 'finished' && hasEveryoneVotedRematch(room)) {
+    resetRoom(room);
   }
 }
 
-function createBottle(car) {
-  const bottleSpeed = PHYSICS.BOTTLE_SPEED;
-  const angle = car.rotation;
-  
-  return {
-    id: `bottle_${Date.now()}_${Math.random()}`,
-    position: {
-      x: car.position.x + Math.cos(angle) * 40,
-      y: car.position.y + Math.sin(angle) * 40
-    },
-    velocity: {
-      x: Math.cos(angle) * bottleSpeed + car.velocity.x,
-      y: Math.sin(angle) * bottleSpeed + car.velocity.y
-    },
-    playerId: car.playerId,
-    damage: 20,
-    active: true
-  };
+function hasEveryoneVotedRematch(room) {
+  return room.rematchVotes.length > 0 &&
+    room.players.every(p => p.bot || !p.connected || room.rematchVotes.includes(p.id));
 }
 
-function updateBottlePhysics(bottle) {
-  bottle.position.x += bottle.velocity.x;
-  bottle.position.y += bottle.velocity.y;
+// Returns a finished room to the lobby with a fresh race. Players whose
+// connection is gone are dropped rather than carried into the next race.
+function resetRoom(room) {
+  const roomId = room.id;
+  room.rematchVotes = [];
+
+  [...room.players, ...room.spectators]
+    .filter(p => !p.connected)
+    .forEach(p => removePlayerFromRoom(roomId, p.id));
+  if (!rooms.has(roomId)) return;
+
+  stopGameLoop(roomId);
+  inputBuffers.delete(roomId);
+  roomSnapshots.delete(roomId);
+  replays.delete(roomId);
+
+  room.players.forEach(p => {
+    p.ready = Boolean(p.bot);
+    p.spectating = false;
+  });
+  room.gameState = GameSimulation.createInitialGameState(roomId, room.settings);
 
-  if (bottle.position.x < 0 || bottle.position.x > PHYSICS.TRACK_WIDTH ||
-      bottle.position.y < 0 || bottle.position.y > PHYSICS.TRACK_HEIGHT) {
-    bottle.active = false;
-  }
+  io.to(roomId).emit('roomReset', { room });
+  console.log(`Room reset for a rematch: ${roomId}`);
 }
 
-function checkCollision(pos1, pos2, radius1, radius2) {
-  const dx = pos1.x - pos2.x;
-  const dy = pos1.y - pos2.y;
-  const distance = Math.sqrt(dx * dx + dy * dy);
-  return distance < (radius1 + radius2);
+// The host readies up by starting the race
+function isEveryoneReady(room) {
+  return room.players.every(p => p.ready || p.id === room.host);
 }
 
-function handleBottleCarCollision(bottle, car) {
-  if (bottle.playerId === car.playerId || !bottle.active) return false;
-  
-  if (checkCollision(bottle.position, car.position, 5, 20)) {
-    car.health -= bottle.damage;
-    bottle.active = false;
-
-    const knockbackForce = 3;
-    const angle = Math.atan2(car.position.y - bottle.position.y, car.position.x - bottle.position.x);
-    car.velocity.x += Math.cos(angle) * knockbackForce;
-    car.velocity.y += Math.sin(angle) * knockbackForce;
-    
-    return true;
+function cancelPendingStart(room) {
+  const timer = startTimers.get(room.id);
+  if (timer) {
+    clearTimeout(timer);
+    startTimers.delete(room.id);
   }
-  return false;
+  room.startDeadline = null;
 }
 
-function handlePowerUpCollection(powerUp, car) {
-  if (powerUp.collected) return false;
-  
-  if (checkCollision(powerUp.position, car.position, 15, 20)) {
-    powerUp.collected = true;
-    applyPowerUp(powerUp, car);
-    return true;
+function beginRace(room) {
+  const roomId = room.id;
+  cancelPendingStart(room);
+
+  if (room.gameState.phase !== 'lobby') return;
+  if (room.players.length < 2) {
+    io.to(roomId).emit('startCancelled', { room });
+    return;
   }
-  return false;
+
+  GameSimulation.startRace(room.gameState, room.players, room.settings);
+
+  inputBuffers.set(roomId, new InputBuffer());
+  roomSnapshots.set(roomId, new RoomSnapshots(SNAPSHOT_ENCODING));
+  replays.set(roomId, new ReplayRecorder(room));
+  startGameLoop(roomId);
+  
+  io.to(roomId).emit('gameStarted', room.gameState);
+  
+  console.log(`Game started in room: ${roomId}`);
 }
 
-function applyPowerUp(powerUp, car) {
-  switch (powerUp.type) {
-    case 'speed':
-      car.maxSpeed = Math.min(car.maxSpeed + 2, 12);
-      setTimeout(() => {
-        car.maxSpeed = PHYSICS.MAX_SPEED;
-      }, 5000);
-      break;
-    case 'shield':
-      car.powerUps.push({
-        ...powerUp,
-        duration: 8000
-      });
-      break;
-    case 'health':
-      car.health = Math.min(car.health + 30, car.maxHealth);
-      break;
-    case 'bottles':
-      car.bottles += 3;
-      break;
-  }
+function isRaceRunning(room) {
+  return room.gameState.phase === 'countdown' || room.gameState.phase === 'racing';
 }
 
-function updateGame(roomId) {
-  const room = rooms.get(roomId);
-  if (!room || !room.gameState.gameStarted || room.gameState.gameEnded) return;
+function getGameScreen(room) {
+  if (room.gameState.phase === 'finished') return 'gameOver';
+  if (room.gameState.phase === 'lobby') return 'lobby';
+  return 'game';
+}
 
-  const gameState = room.gameState;
-  gameState.raceTime++;
+function createRoom(socket, { roomName, playerName, trackId, visibility }) {
+  const roomId = uuidv4();
+  const playerId = uuidv4();
+  const settings = RoomSettingsValidator.validate({ trackId });
+  
+  const room = {
+    id: roomId,
+    name: roomName,
+    players: [{ id: playerId, name: playerName, connected: true, ready: false, team: Teams.TEAM_IDS[0] }],
+    settings,
+    host: playerId,
+    visibility: visibility === 'unlisted' ? 'unlisted' : 'public',
+    startDeadline: null,
+    rematchVotes: [],
+    spectators: [],
+    gameState: GameSimulation.createInitialGameState(roomId, settings)
+  };
 
-  gameState.bottles = gameState.bottles.filter(bottle => {
-    if (!bottle.active) return false;
-    
-    updateBottlePhysics(bottle);
-    
-    for (const car of gameState.players) {
-      if (!car.isEliminated && handleBottleCarCollision(bottle, car)) {
-        if (car.health <= 0) {
-          car.isEliminated = true;
-        }
-        break;
-      }
-    }
-    
-    return bottle.active;
-  });
+  rooms.set(roomId, room);
+  const session = sessions.create(roomId, playerId, socket.id);
+  socket.join(roomId);
+  socket.emit('roomCreated', { roomId, room, playerId, sessionToken: session.token });
+  
+  console.log(`Room created: ${roomId} by ${playerName}`);
+}
 
-  gameState.powerUps.forEach(powerUp => {
-    if (powerUp.collected) return;
-    
-    for (const car of gameState.players) {
-      if (!car.isEliminated && handlePowerUpCollection(powerUp, car)) {
-        break;
-      }
-    }
+function joinRoom(socket, room, playerName, asSpectator = false) {
+  const playerId = uuidv4();
+  if (asSpectator) {
+    room.spectators.push({ id: playerId, name: playerName, connected: true });
+  } else {
+    room.players.push({ id: playerId, name: playerName, connected: true, ready: false, team: Teams.pickTeam(room.players) });
+  }
+  const session = sessions.create(room.id, playerId, socket.id);
+  socket.join(room.id);
+  
+  io.to(room.id).emit('playerJoined', { room, playerId });
+  socket.emit('roomJoined', {
+    roomId: room.id,
+    room,
+    playerId,
+    sessionToken: session.token,
+    screen: getGameScreen(room)
   });
+  
+  console.log(`${playerName} joined room: ${room.id}${asSpectator ? ' as a spectator' : ''}`);
+}
 
-  gameState.players.forEach(car => {
-    if (car.isEliminated) return;
-    
-    car.totalTime = gameState.raceTime;
-    
-    if (car.position.x < 50 && car.position.y < 100 && car.velocity.x > 0) {
-      if (car.lap < gameState.maxLaps) {
-        car.lap++;
-        
-        if (car.lap >= gameState.maxLaps) {
-          gameState.gameEnded = true;
-          gameState.winner = car.playerId;
-        }
-      }
-    }
-  });
+// Bots are always connected and ready, and have no session
+function addBot(room, difficulty) {
+  const takenNames = room.players.map(p => p.name);
+  const name = BotDriver.NAMES
+    .map(botName => `${botName} (Bot)`)
+    .find(botName => !takenNames.includes(botName)) || `Bot ${room.players.length + 1}`;
 
-  const activePlayers = gameState.players.filter(p => !p.isEliminated);
-  if (activePlayers.length <= 1 && !gameState.gameEnded) {
-    gameState.gameEnded = true;
-    if (activePlayers.length === 1) {
-      gameState.winner = activePlayers[0].playerId;
-    }
-  }
+  const bot = { id: uuidv4(), name, connected: true, ready: true, bot: difficulty, team: Teams.pickTeam(room.players) };
+  room.players.push(bot);
+  return bot;
+}
 
-  if (gameState.raceTime % 600 === 0) {
-    const uncollectedCount = gameState.powerUps.filter(p => !p.collected).length;
-    if (uncollectedCount < 4) {
-      const newPowerUps = generatePowerUps();
-      gameState.powerUps.push(...newPowerUps.slice(0, 2));
-    }
-  }
+function getRoomStatus(room) {
+  if (room.gameState.phase === 'finished') return 'finished';
+  if (room.gameState.phase === 'lobby') return 'lobby';
+  return 'racing';
+}
 
-  io.to(roomId).emit('gameStateUpdate', gameState);
+// The public view of a room shown in the room browser
+function summarizeRoom(room) {
+  const host = room.players.find(p => p.id === room.host);
+  const track = getTrack(room.settings.trackId);
 
-  if (gameState.gameEnded) {
-    const gameLoop = gameLoops.get(roomId);
-    if (gameLoop) {
-      clearInterval(gameLoop);
-      gameLoops.delete(roomId);
-    }
-  }
+  return {
+    id: room.id,
+    name: room.name,
+    hostName: host ? host.name : '',
+    playerCount: room.players.length,
+    spectatorCount: room.spectators.length + room.players.filter(p => p.spectating).length,
+    maxPlayers: room.settings.maxPlayers,
+    status: getRoomStatus(room),
+    trackId: track.id,
+    trackName: track.name,
+    laps: room.settings.laps
+  };
 }
 
-function startGameLoop(roomId) {
-  const gameLoop = setInterval(() => {
-    updateGame(roomId);
-  }, 1000 / 60);
+function listPublicRooms() {
+  return Array.from(rooms.values())
+    .filter(room => room.visibility === 'public')
+    .map(summarizeRoom);
+}
 
-  gameLoops.set(roomId, gameLoop);
+function findQuickMatchRoom() {
+  return Array.from(rooms.values())
+    .filter(room =>
+      room.visibility === 'public' &&
+      getRoomStatus(room) === 'lobby' &&
+      room.players.length < room.settings.maxPlayers
+    )
+    .sort((a, b) => b.players.length - a.players.length)[0] || null;
 }
 
 io.on('connection', (socket) => {
   console.log('Player connected:', socket.id);
 
   socket.on('createRoom', (data) => {
-    const { roomName, playerName } = data;
-    const roomId = uuidv4();
-    
-    const room = {
-      id: roomId,
-      name: roomName,
-      players: [{ id: socket.id, name: playerName }],
-      maxPlayers: 6,
-      host: socket.id,
-      gameState: createInitialGameState(roomId)
-    };
-
-    rooms.set(roomId, room);
-    socket.join(roomId);
-    socket.emit('roomCreated', { roomId, room });
-    
-    console.log(`Room created: ${roomId} by ${playerName}`);
+    if (sessions.getBySocket(socket.id)) {
+      socket.emit('joinError', 'Already in a room');
+      return;
+    }
+
+    createRoom(socket, data);
   });
 
   socket.on('joinRoom', (data) => {
@@ -372,99 +436,338 @@ io.on('connection', (socket) => {
       socket.emit('joinError', 'Room not found');
       return;
     }
+
+    // Anyone arriving after the race has started watches it instead
+    const asSpectator = data.asSpectator === true || room.gameState.phase !== 'lobby';
     
-    if (room.players.length >= room.maxPlayers) {
+    if (!asSpectator && room.players.length >= room.settings.maxPlayers) {
       socket.emit('joinError', 'Room is full');
       return;
     }
 
-    if (room.players.find(p => p.id === socket.id)) {
+    if (sessions.getBySocket(socket.id)) {
       socket.emit('joinError', 'Already in room');
       return;
     }
 
-    room.players.push({ id: socket.id, name: playerName });
-    socket.join(roomId);
-    
-    io.to(roomId).emit('playerJoined', { room, playerId: socket.id });
-    socket.emit('roomJoined', { roomId, room });
-    
-    console.log(`${playerName} joined room: ${roomId}`);
+    joinRoom(socket, room, playerName, asSpectator);
+  });
+
+  // Moves a lobby member between the racers and the spectators
+  socket.on('setSpectating', (data) => {
+    const { roomId, spectating } = data;
+    const room = rooms.get(roomId);
+    const session = sessions.getBySocket(socket.id);
+
+    if (!room || !session || room.gameState.phase !== 'lobby' || room.host === session.playerId) {
+      return;
+    }
+
+    const playerIndex = room.players.findIndex(p => p.id === session.playerId);
+    const spectatorIndex = room.spectators.findIndex(s => s.id === session.playerId);
+
+    if (spectating && playerIndex !== -1) {
+      const [player] = room.players.splice(playerIndex, 1);
+      room.spectators.push({ id: player.id, name: player.name, connected: player.connected });
+    } else if (!spectating && spectatorIndex !== -1) {
+      if (room.players.length >= room.settings.maxPlayers) {
+        socket.emit('joinError', 'Room is full');
+        return;
+      }
+      const [spectator] = room.spectators.splice(spectatorIndex, 1);
+      room.players.push({ ...spectator, ready: false, team: Teams.pickTeam(room.players) });
+    } else {
+      return;
+    }
+
+    io.to(roomId).emit('playerRoleChanged', { room, playerId: session.playerId });
+
+    if (room.startDeadline && isEveryoneReady(room)) {
+      beginRace(room);
+    }
+  });
+
+  socket.on('listRooms', () => {
+    socket.emit('roomList', listPublicRooms());
+  });
+
+  // Joins the fullest open public lobby, or opens a new public room
+  socket.on('quickMatch', (data) => {
+    const { playerName } = data;
+
+    if (sessions.getBySocket(socket.id)) {
+      socket.emit('joinError', 'Already in a room');
+      return;
+    }
+
+    const room = findQuickMatchRoom();
+    if (room) {
+      joinRoom(socket, room, playerName);
+    } else {
+      createRoom(socket, { roomName: `${playerName}'s Race`, playerName, visibility: 'public' });
+    }
+  });
+
+  socket.on('resumeSession', (data) => {
+    const session = sessions.get(data && data.sessionToken);
+    const room = session && rooms.get(session.roomId);
+    const player = room && findMember(room, session.playerId);
+
+    if (!session || !room || !player) {
+      socket.emit('sessionExpired');
+      return;
+    }
+
+    const previousSocket = session.socketId && io.sockets.sockets.get(session.socketId);
+    if (previousSocket && previousSocket.id !== socket.id) {
+      previousSocket.leave(room.id);
+    }
+
+    sessions.bind(session, socket.id);
+    player.connected = true;
+    socket.join(room.id);
+
+    // The new client starts a fresh input sequence
+    getInputBuffer(room.id).remove(player.id);
+
+    socket.emit('sessionResumed', {
+      roomId: room.id,
+      room,
+      playerId: player.id,
+      screen: getGameScreen(room)
+    });
+    io.to(room.id).emit('playerReconnected', { room, playerId: player.id });
+
+    console.log(`${player.name} resumed session in room: ${room.id}`);
+  });
+
+  socket.on('leaveRoom', () => {
+    const session = sessions.getBySocket(socket.id);
+    if (!session) return;
+
+    socket.leave(session.roomId);
+    removePlayerFromRoom(session.roomId, session.playerId);
+  });
+
+  socket.on('updateSettings', (data) => {
+    const { roomId } = data;
+    const room = rooms.get(roomId);
+    const session = sessions.getBySocket(socket.id);
+
+    if (!room || !session || room.host !== session.playerId || room.gameState.phase !== 'lobby') {
+      return;
+    }
+
+    const settings = RoomSettingsValidator.validate(data.settings, room.settings);
+    // Never shrink the room below the players already in it
+    settings.maxPlayers = Math.max(settings.maxPlayers, room.players.length);
+    // Even out the teams people drifted into while team races were off
+    if (settings.teams && !room.settings.teams) {
+      Teams.balance(room.players);
+    }
+
+    room.settings = settings;
+    io.to(roomId).emit('roomSettingsUpdated', { room });
+  });
+
+  socket.on('setReady', (data) => {
+    const { roomId, ready } = data;
+    const room = rooms.get(roomId);
+    const session = sessions.getBySocket(socket.id);
+    const player = room && session && room.players.find(p => p.id === session.playerId);
+
+    if (!player || room.gameState.phase !== 'lobby') return;
+
+    player.ready = ready === true;
+    io.to(roomId).emit('playerReady', { room, playerId: player.id });
+
+    if (room.startDeadline && isEveryoneReady(room)) {
+      beginRace(room);
+    }
+  });
+
+  // Players move themselves between teams; the host can move anyone
+  socket.on('setTeam', (data) => {
+    const { roomId, team } = data;
+    const room = rooms.get(roomId);
+    const session = sessions.getBySocket(socket.id);
+    const targetId = data.playerId || (session && session.playerId);
+    const player = room && session && room.players.find(p => p.id === targetId);
+
+    if (!player || room.gameState.phase !== 'lobby' || !Teams.TEAM_IDS.includes(team)) return;
+    if (player.id !== session.playerId && room.host !== session.playerId) return;
+
+    player.team = team;
+    io.to(roomId).emit('teamsUpdated', { room });
+  });
+
+  socket.on('balanceTeams', (data) => {
+    const { roomId } = data;
+    const room = rooms.get(roomId);
+    const session = sessions.getBySocket(socket.id);
+
+    if (!room || !session || room.host !== session.playerId || room.gameState.phase !== 'lobby') {
+      return;
+    }
+
+    Teams.balance(room.players);
+    io.to(roomId).emit('teamsUpdated', { room });
+  });
+
+  socket.on('addBot', (data) => {
+    const { roomId } = data;
+    const room = rooms.get(roomId);
+    const session = sessions.getBySocket(socket.id);
+
+    if (!room || !session || room.host !== session.playerId || room.gameState.phase !== 'lobby') {
+      return;
+    }
+    if (room.players.length >= room.settings.maxPlayers) {
+      socket.emit('joinError', 'Room is full');
+      return;
+    }
+
+    const difficulty = BotDriver.DIFFICULTIES.includes(data.difficulty) ? data.difficulty : 'medium';
+    const bot = addBot(room, difficulty);
+    io.to(roomId).emit('playerJoined', { room, playerId: bot.id });
+  });
+
+  socket.on('removeBot', (data) => {
+    const { roomId, playerId } = data;
+    const room = rooms.get(roomId);
+    const session = sessions.getBySocket(socket.id);
+    const bot = room && room.players.find(p => p.id === playerId && p.bot);
+
+    if (!bot || !session || room.host !== session.playerId || room.gameState.phase !== 'lobby') {
+      return;
+    }
+
+    removePlayerFromRoom(roomId, bot.id);
   });
 
   socket.on('startGame', (data) => {
     const { roomId } = data;
     const room = rooms.get(roomId);
+    const session = sessions.getBySocket(socket.id);
     
-    if (!room || room.host !== socket.id || room.players.length < 2) {
+    if (!room || !session || room.host !== session.playerId || room.players.length < 2 ||
+        room.gameState.phase !== 'lobby' || room.startDeadline) {
+      return;
+    }
+
+    if (isEveryoneReady(room)) {
+      beginRace(room);
       return;
     }
 
-    room.gameState.players = room.players.map((player, index) => 
-      createCar(player.id, player.name, index)
-    );
+    // Wait for the remaining players, but not forever
+    room.startDeadline = Date.now() + READY_TIMEOUT_MS;
+    startTimers.set(roomId, setTimeout(() => beginRace(room), READY_TIMEOUT_MS));
+    io.to(roomId).emit('startPending', { room });
+  });
 
-    room.gameState.powerUps = generatePowerUps();
-    
-    room.gameState.gameStarted = true;
-    room.gameState.gameEnded = false;
-    room.gameState.raceTime = 0;
+  socket.on('voteRematch', (data) => {
+    const { roomId } = data;
+    const room = rooms.get(roomId);
+    const session = sessions.getBySocket(socket.id);
 
-    startGameLoop(roomId);
-    
-    io.to(roomId).emit('gameStarted', room.gameState);
-    
-    console.log(`Game started in room: ${roomId}`);
+    if (!room || !session || room.gameState.phase !== 'finished') return;
+
+    if (!room.rematchVotes.includes(session.playerId)) {
+      room.rematchVotes.push(session.playerId);
+    }
+
+    if (hasEveryoneVotedRematch(room)) {
+      resetRoom(room);
+    } else {
+      io.to(roomId).emit('rematchVote', { room, playerId: session.playerId });
+    }
   });
 
-  socket.on('playerInput', (data) => {
-    const { roomId, input } = data;
+  socket.on('startRematch', (data) => {
+    const { roomId } = data;
+    const room = rooms.get(roomId);
+    const session = sessions.getBySocket(socket.id);
+
+    if (!room || !session || room.host !== session.playerId || room.gameState.phase !== 'finished') {
+      return;
+    }
+
+    resetRoom(room);
+  });
+
+  // Sends the recording of the room's finished race to anyone in the room
+  socket.on('requestReplay', (data) => {
+    const { roomId } = data;
     const room = rooms.get(roomId);
+    const session = sessions.getBySocket(socket.id);
+    const replay = replays.get(roomId);
+
+    if (!room || !session || session.roomId !== roomId || !replay || room.gameState.phase !== 'finished') {
+      socket.emit('replayError', 'No replay available for this race');
+      return;
+    }
+
+    socket.emit('replayData', replay.getReplay());
+  });
+
+  socket.on('playerInput', (data) => {
+    const session = sessions.getBySocket(socket.id);
+    const input = sanitizeInput(data.input);
     
-    if (!room || !room.gameState.gameStarted) return;
+    if (!session || !input || session.roomId !== data.roomId) return;
 
-    const car = room.gameState.players.find(p => p.playerId === socket.id);
-    if (!car || car.isEliminated) return;
+    // Queued and applied by the game loop, one input per tick
+    getInputBuffer(session.roomId).enqueue(session.playerId, input);
+  });
 
-    if (input.keys.space && car.bottles > 0) {
-      const bottle = createBottle(car);
-      room.gameState.bottles.push(bottle);
-      car.bottles--;
+  socket.on('snapshotAck', (data) => {
+    const snapshots = roomSnapshots.get(data.roomId);
+    if (snapshots && typeof data.tick === 'number') {
+      snapshots.acknowledge(socket.id, data.tick);
     }
+  });
 
-    updateCarPhysics(car, input.keys);
+  socket.on('snapshotResync', (data) => {
+    const snapshots = roomSnapshots.get(data.roomId);
+    if (snapshots) {
+      snapshots.resync(socket.id);
+    }
   });
 
   socket.on('disconnect', () => {
     console.log('Player disconnected:', socket.id);
-    
-    for (const [roomId, room] of rooms.entries()) {
-      const playerIndex = room.players.findIndex(p => p.id === socket.id);
-      if (playerIndex !== -1) {
-        room.players.splice(playerIndex, 1);
-        room.gameState.players = room.gameState.players.filter(p => p.playerId !== socket.id);
-        
-        if (room.players.length === 0) {
-          const gameLoop = gameLoops.get(roomId);
-          if (gameLoop) {
-            clearInterval(gameLoop);
-            gameLoops.delete(roomId);
-          }
-          rooms.delete(roomId);
-          console.log(`Room deleted: ${roomId}`);
-        } else {
-          if (room.host === socket.id && room.players.length > 0) {
-            room.host = room.players[0].id;
-          }
-          
-          io.to(roomId).emit('playerLeft', { room, playerId: socket.id });
-        }
-        break;
+
+    const session = sessions.unbindSocket(socket.id);
+    if (!session) return;
+
+    const { roomId, playerId } = session;
+    const room = rooms.get(roomId);
+    const player = room && findMember(room, playerId);
+    roomSnapshots.get(roomId)?.removeClient(socket.id);
+    if (!player) return;
+
+    // Keep the player (and their car, coasting) for a grace period so a
+    // dropped connection can resume the session
+    player.connected = false;
+    getInputBuffer(roomId).remove(playerId);
+    io.to(roomId).emit('playerDisconnected', { room, playerId });
+
+    session.graceTimer = setTimeout(() => {
+      session.graceTimer = null;
+      if (!session.socketId) {
+        console.log(`Reconnect grace period expired for ${player.name}`);
+        removePlayerFromRoom(roomId, playerId);
       }
-    }
+    }, RECONNECT_GRACE_MS);
   });
 });
 
+// Public room listing for the room browser
+app.get('/rooms', (req, res) => {
+  res.json(listPublicRooms());
+});
+
 // Health check endpoint
 app.get('/health', (req, res) => {
   res.json({ status: 'ok', rooms: rooms.size });
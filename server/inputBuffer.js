@@ -0,0 +1,88 @@
+const { GameSimulation } = require('../src/utils/gameSimulation');
+
+const MAX_QUEUED_INPUTS = 30;
+
+// Per-room queue of player inputs. Inputs are consumed exactly once per
+// simulation tick; when a player's queue is empty their last input is held.
+class InputBuffer {
+  constructor() {
+    this.players = new Map();
+  }
+
+  getPlayer(playerId) {
+    if (!this.players.has(playerId)) {
+      this.players.set(playerId, {
+        queue: [],
+        lastKeys: GameSimulation.NEUTRAL_INPUT,
+        lastReceivedSequence: -1,
+        lastProcessedSequence: -1
+      });
+    }
+    return this.players.get(playerId);
+  }
+
+  enqueue(playerId, input) {
+    const player = this.getPlayer(playerId);
+
+    // Drop duplicated or out-of-order inputs
+    if (input.sequence <= player.lastReceivedSequence) return;
+    player.lastReceivedSequence = input.sequence;
+
+    player.queue.push(input);
+
+    // A client flooding inputs only builds latency for itself; never let it
+    // gain extra simulation steps
+    if (player.queue.length > MAX_QUEUED_INPUTS) {
+      player.queue.splice(0, player.queue.length - MAX_QUEUED_INPUTS);
+    }
+  }
+
+  next(playerId) {
+    const player = this.getPlayer(playerId);
+    const input = player.queue.shift();
+
+    if (input) {
+      player.lastKeys = input.keys;
+      player.lastProcessedSequence = input.sequence;
+    }
+
+    return player.lastKeys;
+  }
+
+  nextTickInputs(playerIds) {
+    const inputs = {};
+    playerIds.forEach(playerId => {
+      inputs[playerId] = this.next(playerId);
+    });
+    return inputs;
+  }
+
+  lastProcessedSequence(playerId) {
+    return this.getPlayer(playerId).lastProcessedSequence;
+  }
+
+  remove(playerId) {
+    this.players.delete(playerId);
+  }
+}
+
+function sanitizeInput(input) {
+  if (!input || typeof input.sequence !== 'number' || !Number.isFinite(input.sequence)) {
+    return null;
+  }
+
+  const keys = input.keys || {};
+  return {
+    sequence: input.sequence,
+    keys: {
+      up: keys.up === true,
+      down: keys.down === true,
+      left: keys.left === true,
+      right: keys.right === true,
+      space: keys.space === true,
+      item: keys.item === true
+    }
+  };
+}
+
+module.exports = { InputBuffer, sanitizeInput };
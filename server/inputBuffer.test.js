@@ -0,0 +1,61 @@
+const { describe, it } = require('node:test');
+const assert = require('node:assert/strict');
+const { GameSimulation } = require('../src/utils/gameSimulation');
+const { InputBuffer, sanitizeInput } = require('./inputBuffer');
+
+function input(sequence, keys = {}) {
+  return { sequence, keys: { ...GameSimulation.NEUTRAL_INPUT, ...keys } };
+}
+
+describe('InputBuffer', () => {
+  it('applies one queued input per tick and holds the last keys after that', () => {
+    const buffer = new InputBuffer();
+    buffer.enqueue('a', input(0, { up: true }));
+    buffer.enqueue('a', input(1, { left: true }));
+
+    assert.equal(buffer.next('a').up, true);
+    assert.equal(buffer.next('a').left, true);
+    assert.equal(buffer.next('a').left, true);
+    assert.equal(buffer.lastProcessedSequence('a'), 1);
+  });
+
+  it('coasts a player who has sent nothing', () => {
+    const buffer = new InputBuffer();
+
+    assert.deepEqual(buffer.nextTickInputs(['a']), { a: GameSimulation.NEUTRAL_INPUT });
+    assert.equal(buffer.lastProcessedSequence('a'), -1);
+  });
+
+  it('drops duplicated and out-of-order inputs', () => {
+    const buffer = new InputBuffer();
+    buffer.enqueue('a', input(5, { up: true }));
+    buffer.enqueue('a', input(5, { down: true }));
+    buffer.enqueue('a', input(3, { down: true }));
+
+    assert.equal(buffer.next('a').up, true);
+    assert.equal(buffer.next('a').up, true);
+    assert.equal(buffer.lastProcessedSequence('a'), 5);
+  });
+
+  it('keeps only the newest inputs from a client that floods them', () => {
+    const buffer = new InputBuffer();
+    for (let sequence = 0; sequence < 100; sequence++) buffer.enqueue('a', input(sequence));
+
+    buffer.next('a');
+    assert.equal(buffer.lastProcessedSequence('a'), 70);
+  });
+});
+
+describe('sanitizeInput', () => {
+  it('keeps only the known keys as booleans', () => {
+    const sanitized = sanitizeInput({ sequence: 4, keys: { up: 1, space: true, fly: true } });
+
+    assert.deepEqual(sanitized, { sequence: 4, keys: { ...GameSimulation.NEUTRAL_INPUT, space: true } });
+  });
+
+  it('rejects inputs without a usable sequence number', () => {
+    assert.equal(sanitizeInput(null), null);
+    assert.equal(sanitizeInput({ keys: {} }), null);
+    assert.equal(sanitizeInput({ sequence: Infinity, keys: {} }), null);
+  });
+});
@@ -0,0 +1,60 @@
+const { GameSimulation } = require('../src/utils/gameSimulation');
+const { ReplayPlayer } = require('../src/utils/replayPlayer');
+const { RoomSettingsValidator } = require('../src/utils/roomSettings');
+
+const KEYS = Object.keys(GameSimulation.NEUTRAL_INPUT);
+
+function sameKeys(a, b) {
+  return KEYS.every(key => a[key] === b[key]);
+}
+
+// Records a race as its seed and settings plus every change in a player's
+// held keys, which is enough for ReplayPlayer to re-simulate it exactly
+class ReplayRecorder {
+  constructor(room) {
+    const { gameState } = room;
+
+    this.lastKeys = new Map();
+    this.replay = {
+      version: ReplayPlayer.VERSION,
+      roomId: room.id,
+      roomName: room.name,
+      recordedAt: Date.now(),
+      seed: gameState.seed,
+      settings: RoomSettingsValidator.clone(gameState.settings),
+      players: gameState.players.map(car => ({ id: car.playerId, name: car.playerName, team: car.team ?? undefined })),
+      inputs: [],
+      departures: [],
+      startTick: gameState.tick,
+      endTick: gameState.tick
+    };
+  }
+
+  // Called with the inputs about to be simulated on the next tick
+  recordInputs(gameState, inputs) {
+    const tick = gameState.tick + 1;
+
+    gameState.players.forEach(car => {
+      const keys = inputs[car.playerId] || GameSimulation.NEUTRAL_INPUT;
+      const lastKeys = this.lastKeys.get(car.playerId) || GameSimulation.NEUTRAL_INPUT;
+
+      if (!sameKeys(keys, lastKeys)) {
+        this.replay.inputs.push({ tick, playerId: car.playerId, keys: { ...keys } });
+        this.lastKeys.set(car.playerId, keys);
+      }
+    });
+
+    this.replay.endTick = tick;
+  }
+
+  // A car removed mid-race is removed before the next tick in the replay too
+  recordDeparture(gameState, playerId) {
+    this.replay.departures.push({ tick: gameState.tick + 1, playerId });
+  }
+
+  getReplay() {
+    return this.replay;
+  }
+}
+
+module.exports = { ReplayRecorder };
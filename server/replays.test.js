@@ -0,0 +1,72 @@
+const { describe, it } = require('node:test');
+const assert = require('node:assert/strict');
+const { BotDriver } = require('../src/utils/botDriver');
+const { GameSimulation } = require('../src/utils/gameSimulation');
+const { ReplayPlayer } = require('../src/utils/replayPlayer');
+const { RoomSettingsValidator } = require('../src/utils/roomSettings');
+const { ReplayRecorder } = require('./replays');
+
+const DRIVERS = ['hard', 'medium', 'easy'];
+
+// Races bots the way the server does, recording the race as it goes
+function recordRace(ticks, departure) {
+  const settings = RoomSettingsValidator.createDefault();
+  const gameState = GameSimulation.createInitialGameState('room', settings);
+  GameSimulation.startRace(gameState, DRIVERS.map((_, index) => ({ id: `bot${index}`, name: `Bot ${index}` })), settings, 9);
+  const recorder = new ReplayRecorder({ id: 'room', name: 'Room', gameState });
+
+  for (let i = 0; i < ticks && gameState.phase !== 'finished'; i++) {
+    if (departure && gameState.tick === departure.tick) {
+      recorder.recordDeparture(gameState, departure.playerId);
+      GameSimulation.removePlayer(gameState, departure.playerId);
+    }
+
+    const inputs = {};
+    gameState.players.forEach(car => {
+      inputs[car.playerId] = BotDriver.computeInput(gameState, car, DRIVERS[Number(car.playerId.slice(3))]);
+    });
+    recorder.recordInputs(gameState, inputs);
+    GameSimulation.step(gameState, inputs);
+  }
+
+  return { gameState, replay: recorder.getReplay() };
+}
+
+// Car and power-up ids are random uuids and are not part of what is simulated
+function withoutIds(gameState) {
+  return JSON.parse(JSON.stringify(gameState, (key, value) => key === 'id' ? undefined : value));
+}
+
+describe('replays', () => {
+  it('re-simulates the recorded race tick for tick', () => {
+    const { gameState, replay } = recordRace(1200);
+    const player = new ReplayPlayer(replay);
+
+    assert.deepEqual(withoutIds(player.seek(player.endTick)), withoutIds(gameState));
+  });
+
+  it('replays a car leaving mid-race', () => {
+    const { gameState, replay } = recordRace(900, { tick: 600, playerId: 'bot1' });
+    const player = new ReplayPlayer(replay);
+
+    assert.equal(gameState.players.length, 2);
+    assert.deepEqual(withoutIds(player.seek(player.endTick)), withoutIds(gameState));
+  });
+
+  it('seeks backwards to the same state it passed through', () => {
+    const { replay } = recordRace(1200);
+    const player = new ReplayPlayer(replay);
+
+    const first = player.seek(700);
+    player.seek(player.endTick);
+
+    assert.deepEqual(player.seek(700), first);
+  });
+
+  it('refuses replays from another version', () => {
+    const { replay } = recordRace(10);
+
+    assert.notEqual(ReplayPlayer.parse(replay), null);
+    assert.equal(ReplayPlayer.parse({ ...replay, version: ReplayPlayer.VERSION + 1 }), null);
+  });
+});
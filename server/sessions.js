@@ -0,0 +1,75 @@
+const { v4: uuidv4 } = require('uuid');
+
+// Maps session tokens and sockets to players. A player's identity is the
+// playerId stored here, not the socket id, so a new socket can reclaim it.
+class SessionStore {
+  constructor() {
+    this.byToken = new Map();
+    this.bySocket = new Map();
+  }
+
+  create(roomId, playerId, socketId) {
+    const session = {
+      token: uuidv4(),
+      roomId,
+      playerId,
+      socketId: null,
+      graceTimer: null
+    };
+
+    this.byToken.set(session.token, session);
+    this.bind(session, socketId);
+    return session;
+  }
+
+  get(token) {
+    return this.byToken.get(token) || null;
+  }
+
+  getBySocket(socketId) {
+    return this.bySocket.get(socketId) || null;
+  }
+
+  bind(session, socketId) {
+    if (session.socketId) {
+      this.bySocket.delete(session.socketId);
+    }
+    if (session.graceTimer) {
+      clearTimeout(session.graceTimer);
+      session.graceTimer = null;
+    }
+
+    session.socketId = socketId;
+    this.bySocket.set(socketId, session);
+  }
+
+  unbindSocket(socketId) {
+    const session = this.bySocket.get(socketId);
+    if (session) {
+      this.bySocket.delete(socketId);
+      session.socketId = null;
+    }
+    return session || null;
+  }
+
+  remove(session) {
+    if (session.graceTimer) {
+      clearTimeout(session.graceTimer);
+    }
+    if (session.socketId) {
+      this.bySocket.delete(session.socketId);
+    }
+    this.byToken.delete(session.token);
+  }
+
+  findByPlayer(roomId, playerId) {
+    for (const session of this.byToken.values()) {
+      if (session.roomId === roomId && session.playerId === playerId) {
+        return session;
+      }
+    }
+    return null;
+  }
+}
+
+module.exports = { SessionStore };
@@ -0,0 +1,54 @@
+const { SnapshotDelta } = require('../src/utils/snapshotDelta');
+const { BinaryCodec } = require('../src/utils/binaryCodec');
+
+const MAX_HISTORY = 64;
+
+// Keeps the snapshots sent to a room and the last one each client has
+// acknowledged, so every client receives a delta against a state it is known
+// to have. Clients without a usable baseline get a full snapshot.
+class RoomSnapshots {
+  constructor(encoding) {
+    this.encoding = encoding;
+    this.history = new Map();
+    this.acks = new Map();
+  }
+
+  record(gameState) {
+    this.history.set(gameState.tick, structuredClone(gameState));
+
+    if (this.history.size > MAX_HISTORY) {
+      const oldest = Math.min(...this.history.keys());
+      this.history.delete(oldest);
+    }
+  }
+
+  acknowledge(socketId, tick) {
+    if (!this.history.has(tick)) return;
+
+    const previous = this.acks.get(socketId);
+    if (previous === undefined || tick > previous) {
+      this.acks.set(socketId, tick);
+    }
+  }
+
+  resync(socketId) {
+    this.acks.delete(socketId);
+  }
+
+  removeClient(socketId) {
+    this.acks.delete(socketId);
+  }
+
+  buildMessage(socketId, gameState) {
+    const baseTick = this.acks.get(socketId);
+    const base = baseTick !== undefined ? this.history.get(baseTick) : undefined;
+
+    const message = base
+      ? { tick: gameState.tick, baseTick, delta: SnapshotDelta.diff(base, gameState) }
+      : { tick: gameState.tick, baseTick: null, state: gameState };
+
+    return this.encoding === 'binary' ? BinaryCodec.encode(message) : message;
+  }
+}
+
+module.exports = { RoomSnapshots };
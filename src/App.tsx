@@ -1,13 +1,28 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { MainMenu } from './components/MainMenu';
 import { GameLobby } from './components/GameLobby';
 import { GameCanvas } from './components/GameCanvas';
 import { GameOverScreen } from './components/GameOverScreen';
+import { ReplayViewer } from './components/ReplayViewer';
 import { SocketService } from './services/socketService';
 import { SoundManager } from './utils/soundManager';
-import { GameRoom, GameState, PlayerInput } from './types/game';
+import { ReplayPlayer } from './utils/replayPlayer';
+import { BotDifficulty, GameRoom, GameState, PlayerInput, RaceReplay, RoomSettings, RoomSummary, RoomVisibility, TeamId } from './types/game';
 
-type GameScreen = 'menu' | 'lobby' | 'game' | 'gameOver';
+type GameScreen = 'menu' | 'lobby' | 'game' | 'gameOver' | 'replay';
+
+/**
+ * Save a replay as a JSON file through the browser's download prompt
+ */
+function downloadReplayFile(replay: RaceReplay): void {
+  const blob = new Blob([JSON.stringify(replay)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `replay-${replay.roomName.replace(/[^a-z0-9]+/gi, '-')}-${replay.recordedAt}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
 
 function App() {
   const [currentScreen, setCurrentScreen] = useState<GameScreen>('menu');
@@ -17,8 +32,11 @@ function App() {
   const [playerId, setPlayerId] = useState<string | null>(null);
   const [playerName, setPlayerName] = useState('');
   const [gameState, setGameState] = useState<GameState | null>(null);
+  const [publicRooms, setPublicRooms] = useState<RoomSummary[]>([]);
   const [soundEnabled, setSoundEnabled] = useState(true);
   const [connectionStatus, setConnectionStatus] = useState<'connecting' | 'connected' | 'error'>('connecting');
+  const [replay, setReplay] = useState<RaceReplay | null>(null);
+  const replayActionRef = useRef<'watch' | 'download'>('watch');
 
   /**
    * Initialize socket connection
@@ -28,17 +46,19 @@ function App() {
       try {
         await socketService.connect();
         setConnectionStatus('connected');
-        setPlayerId(socketService.getSocketId());
         
         // Set up event listeners
         socketService.on('roomCreated', (data: any) => {
           setCurrentRoom(data.room);
+          setPlayerId(data.playerId);
           setCurrentScreen('lobby');
         });
 
         socketService.on('roomJoined', (data: any) => {
           setCurrentRoom(data.room);
-          setCurrentScreen('lobby');
+          setPlayerId(data.playerId);
+          setGameState(data.room.gameState);
+          setCurrentScreen(data.screen);
         });
 
         socketService.on('playerJoined', (data: any) => {
@@ -49,10 +69,95 @@ function App() {
           setCurrentRoom(data.room);
         });
 
+        socketService.on('playerDisconnected', (data: { room: GameRoom }) => {
+          setCurrentRoom(data.room);
+        });
+
+        socketService.on('playerReconnected', (data: { room: GameRoom }) => {
+          setCurrentRoom(data.room);
+        });
+
+        socketService.on('roomSettingsUpdated', (data: { room: GameRoom }) => {
+          setCurrentRoom(data.room);
+        });
+
+        socketService.on('playerReady', (data: { room: GameRoom }) => {
+          setCurrentRoom(data.room);
+        });
+
+        socketService.on('teamsUpdated', (data: { room: GameRoom }) => {
+          setCurrentRoom(data.room);
+        });
+
+        socketService.on('startPending', (data: { room: GameRoom }) => {
+          setCurrentRoom(data.room);
+        });
+
+        socketService.on('startCancelled', (data: { room: GameRoom }) => {
+          setCurrentRoom(data.room);
+        });
+
+        socketService.on('rematchVote', (data: { room: GameRoom }) => {
+          setCurrentRoom(data.room);
+        });
+
+        // Everyone goes back to the lobby together for the rematch
+        socketService.on('roomReset', (data: { room: GameRoom }) => {
+          setCurrentRoom(data.room);
+          setGameState(null);
+          setCurrentScreen(screen => screen === 'replay' ? screen : 'lobby');
+        });
+
+        socketService.on('replayData', (data: unknown) => {
+          const recording = ReplayPlayer.parse(data);
+          if (!recording) {
+            alert('Replay unavailable: the recording could not be read');
+          } else if (replayActionRef.current === 'download') {
+            downloadReplayFile(recording);
+          } else {
+            setReplay(recording);
+            setCurrentScreen('replay');
+          }
+        });
+
+        socketService.on('replayError', (error: string) => {
+          alert(`Replay unavailable: ${error}`);
+        });
+
+        socketService.on('roomList', (rooms: RoomSummary[]) => {
+          setPublicRooms(rooms);
+        });
+
         socketService.on('joinError', (error: string) => {
           alert(`Failed to join room: ${error}`);
         });
 
+        // Restore where we were after reconnecting to an existing session
+        socketService.on('sessionResumed', (data: { room: GameRoom; playerId: string; screen: GameScreen }) => {
+          const { room } = data;
+          setCurrentRoom(room);
+          setPlayerId(data.playerId);
+          setPlayerName([...room.players, ...room.spectators].find(member => member.id === data.playerId)?.name ?? '');
+          setGameState(room.gameState);
+          setCurrentScreen(data.screen);
+        });
+
+        socketService.on('playerRoleChanged', (data: { room: GameRoom }) => {
+          setCurrentRoom(data.room);
+        });
+
+        socketService.on('roomClosed', () => {
+          setCurrentRoom(null);
+          setGameState(null);
+          setCurrentScreen('menu');
+        });
+
+        socketService.on('sessionExpired', () => {
+          setCurrentRoom(null);
+          setGameState(null);
+          setCurrentScreen('menu');
+        });
+
         socketService.on('gameStarted', (gameState: GameState) => {
           setGameState(gameState);
           setCurrentScreen('game');
@@ -62,8 +167,8 @@ function App() {
           setGameState(gameState);
           
           // Check if game ended
-          if (gameState.gameEnded && currentScreen === 'game') {
-            setCurrentScreen('gameOver');
+          if (gameState.phase === 'finished') {
+            setCurrentScreen(screen => screen === 'game' ? 'gameOver' : screen);
           }
         });
 
@@ -78,13 +183,13 @@ function App() {
     return () => {
       socketService.disconnect();
     };
-  }, [socketService, currentScreen]);
+  }, [socketService]);
   /**
    * Handle creating a new room
    */
-  const handleCreateRoom = useCallback((roomName: string, name: string) => {
+  const handleCreateRoom = useCallback((roomName: string, name: string, visibility: RoomVisibility) => {
     if (socketService.isConnected()) {
-      socketService.createRoom(roomName, name);
+      socketService.createRoom(roomName, name, visibility);
       setPlayerName(name);
     }
   }, [socketService]);
@@ -92,21 +197,41 @@ function App() {
   /**
    * Handle joining an existing room
    */
-  const handleJoinRoom = useCallback((roomId: string, name: string) => {
+  const handleJoinRoom = useCallback((roomId: string, name: string, asSpectator: boolean) => {
     if (socketService.isConnected()) {
-      socketService.joinRoom(roomId, name);
+      socketService.joinRoom(roomId, name, asSpectator);
       setPlayerName(name);
     }
   }, [socketService]);
 
+  /**
+   * Handle quick match into any open public room
+   */
+  const handleQuickMatch = useCallback((name: string) => {
+    if (socketService.isConnected()) {
+      socketService.quickMatch(name);
+      setPlayerName(name);
+    }
+  }, [socketService]);
+
+  /**
+   * Handle refreshing the public room list
+   */
+  const handleRefreshRooms = useCallback(() => {
+    if (socketService.isConnected()) {
+      socketService.listRooms();
+    }
+  }, [socketService]);
+
   /**
    * Handle leaving a room
    */
   const handleLeaveRoom = useCallback(() => {
+    socketService.leaveRoom();
     setCurrentRoom(null);
     setGameState(null);
     setCurrentScreen('menu');
-  }, []);
+  }, [socketService]);
 
   /**
    * Handle starting a game
@@ -117,27 +242,126 @@ function App() {
     }
   }, [socketService, currentRoom]);
 
+  /**
+   * Handle the host changing race settings
+   */
+  const handleUpdateSettings = useCallback((settings: Partial<RoomSettings>) => {
+    if (currentRoom && socketService.isConnected()) {
+      socketService.updateSettings(currentRoom.id, settings);
+    }
+  }, [socketService, currentRoom]);
+
+  /**
+   * Handle toggling the local player's ready flag
+   */
+  const handleSetReady = useCallback((ready: boolean) => {
+    if (currentRoom && socketService.isConnected()) {
+      socketService.setReady(currentRoom.id, ready);
+    }
+  }, [socketService, currentRoom]);
+
+  /**
+   * Handle switching between racing and spectating in the lobby
+   */
+  const handleSetSpectating = useCallback((spectating: boolean) => {
+    if (currentRoom && socketService.isConnected()) {
+      socketService.setSpectating(currentRoom.id, spectating);
+    }
+  }, [socketService, currentRoom]);
+
+  /**
+   * Handle the host adding a bot driver
+   */
+  const handleAddBot = useCallback((difficulty: BotDifficulty) => {
+    if (currentRoom && socketService.isConnected()) {
+      socketService.addBot(currentRoom.id, difficulty);
+    }
+  }, [socketService, currentRoom]);
+
+  /**
+   * Handle the host removing a bot driver
+   */
+  const handleRemoveBot = useCallback((botId: string) => {
+    if (currentRoom && socketService.isConnected()) {
+      socketService.removeBot(currentRoom.id, botId);
+    }
+  }, [socketService, currentRoom]);
+
+  /**
+   * Handle a player moving themselves, or the host moving anyone, to a team
+   */
+  const handleSetTeam = useCallback((team: TeamId, targetId?: string) => {
+    if (currentRoom && socketService.isConnected()) {
+      socketService.setTeam(currentRoom.id, team, targetId);
+    }
+  }, [socketService, currentRoom]);
+
+  /**
+   * Handle the host evening out the teams
+   */
+  const handleBalanceTeams = useCallback(() => {
+    if (currentRoom && socketService.isConnected()) {
+      socketService.balanceTeams(currentRoom.id);
+    }
+  }, [socketService, currentRoom]);
+
   /**
    * Handle player input
    */
-  const handlePlayerInput = useCallback((input: any) => {
-    if (currentRoom && playerId && socketService.isConnected()) {
-      const playerInput: PlayerInput = {
-        playerId,
-        keys: input,
-        timestamp: Date.now()
-      };
-      socketService.sendPlayerInput(currentRoom.id, playerInput);
+  const handlePlayerInput = useCallback((input: PlayerInput) => {
+    if (currentRoom && socketService.isConnected()) {
+      socketService.sendPlayerInput(currentRoom.id, input);
     }
-  }, [socketService, currentRoom, playerId]);
+  }, [socketService, currentRoom]);
 
   /**
-   * Handle play again
+   * Handle voting for a rematch
    */
   const handlePlayAgain = useCallback(() => {
-    setCurrentScreen('lobby');
+    if (currentRoom && socketService.isConnected()) {
+      socketService.voteRematch(currentRoom.id);
+    }
+  }, [socketService, currentRoom]);
+
+  /**
+   * Handle the host starting the rematch without waiting for votes
+   */
+  const handleStartRematch = useCallback(() => {
+    if (currentRoom && socketService.isConnected()) {
+      socketService.startRematch(currentRoom.id);
+    }
+  }, [socketService, currentRoom]);
+
+  /**
+   * Handle fetching the finished race's replay to watch or save it
+   */
+  const handleRequestReplay = useCallback((action: 'watch' | 'download') => {
+    if (currentRoom && socketService.isConnected()) {
+      replayActionRef.current = action;
+      socketService.requestReplay(currentRoom.id);
+    }
+  }, [socketService, currentRoom]);
+
+  /**
+   * Handle opening a replay file from the main menu
+   */
+  const handleOpenReplay = useCallback((recording: RaceReplay) => {
+    setReplay(recording);
+    setCurrentScreen('replay');
   }, []);
 
+  /**
+   * Handle leaving the replay viewer for wherever it was opened from
+   */
+  const handleExitReplay = useCallback(() => {
+    setReplay(null);
+    if (!currentRoom) {
+      setCurrentScreen('menu');
+    } else {
+      setCurrentScreen(gameState ? 'gameOver' : 'lobby');
+    }
+  }, [currentRoom, gameState]);
+
   /**
    * Handle sound toggle
    */
@@ -185,6 +409,10 @@ function App() {
           <MainMenu
             onJoinRoom={handleJoinRoom}
             onCreateRoom={handleCreateRoom}
+            onQuickMatch={handleQuickMatch}
+            rooms={publicRooms}
+            onRefreshRooms={handleRefreshRooms}
+            onOpenReplay={handleOpenReplay}
             soundEnabled={soundEnabled}
             onToggleSound={handleToggleSound}
           />
@@ -198,6 +426,13 @@ function App() {
             playerName={playerName}
             onStartGame={handleStartGame}
             onLeaveRoom={handleLeaveRoom}
+            onUpdateSettings={handleUpdateSettings}
+            onSetReady={handleSetReady}
+            onSetSpectating={handleSetSpectating}
+            onAddBot={handleAddBot}
+            onRemoveBot={handleRemoveBot}
+            onSetTeam={handleSetTeam}
+            onBalanceTeams={handleBalanceTeams}
             isHost={currentRoom.host === playerId}
           />
         ) : null;
@@ -214,15 +449,25 @@ function App() {
         ) : null;
 
       case 'gameOver':
-        return gameState && playerId ? (
+        return gameState && currentRoom && playerId ? (
           <GameOverScreen
             gameState={gameState}
+            room={currentRoom}
             playerId={playerId}
             onPlayAgain={handlePlayAgain}
+            onStartRematch={handleStartRematch}
             onBackToMenu={handleLeaveRoom}
+            onWatchReplay={() => handleRequestReplay('watch')}
+            onDownloadReplay={() => handleRequestReplay('download')}
+            isHost={currentRoom.host === playerId}
           />
         ) : null;
 
+      case 'replay':
+        return replay ? (
+          <ReplayViewer replay={replay} onExit={handleExitReplay} />
+        ) : null;
+
       default:
         return null;
     }
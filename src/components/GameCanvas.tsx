@@ -1,26 +1,357 @@
-import React, { useRef, useEffect, useCallback } from 'react';
-import { Car, Bottle, PowerUp, GameState } from '../types/game';
+import React, { useRef, useEffect, useCallback, useState } from 'react';
+import { Car, Bottle, EffectType, Hazard, HazardKind, ItemType, ObstacleKind, PowerUp, GameState, ProjectileKind, PlayerInput, Position, SurfaceType, Track, TrackGate } from '../types/game';
+import { getTrack } from '../tracks';
+import { formatDelta, formatFinish, formatTicks, getDnfTicksLeft, getGameMode } from '../modes';
+import { CarEffects } from '../utils/carEffects';
+import { GamePhysics } from '../utils/gamePhysics';
+import { LapTiming } from '../utils/lapTiming';
+import { GameSimulation } from '../utils/gameSimulation';
+import { ClientPrediction } from '../services/clientPrediction';
+import { SnapshotBuffer } from '../services/snapshotBuffer';
+import { SoundManager } from '../utils/soundManager';
+import { Teams } from '../utils/teams';
+import { Weapons } from '../utils/weapons';
 
 interface GameCanvasProps {
   gameState: GameState;
   playerId: string;
-  onInputChange: (input: any) => void;
+  onInputChange: (input: PlayerInput) => void;
+  interpolationDelayMs?: number;
+  interpolate?: boolean;
+  cameraTargetId?: string | null;
 }
 
-export const GameCanvas: React.FC<GameCanvasProps> = ({ gameState, playerId, onInputChange }) => {
+const TICK_MS = 1000 / GameSimulation.TICK_RATE;
+const MAX_CATCH_UP_TICKS = 5;
+const FOLLOW_ZOOM = 2;
+// Finished cars are drawn as ghosts while the rest of the field finishes
+const FINISHED_CAR_ALPHA = 0.35;
+// How long the position indicator shows a gained or lost place
+const POSITION_FLASH_MS = 1500;
+
+interface PositionChange {
+  position: number;
+  // Places gained (positive) or lost (negative) on the last change
+  change: number;
+  changedAt: number;
+}
+
+type CameraMode = 'follow' | 'overview';
+
+const SURFACE_COLORS: Record<SurfaceType, string> = {
+  asphalt: '#555555',
+  grass: '#3f7d34',
+  sand: '#d2b870',
+  ice: 'rgba(200, 235, 255, 0.75)',
+  oil: 'rgba(15, 15, 25, 0.85)'
+};
+
+const OBSTACLE_STYLES: Record<ObstacleKind, { fill: string; stroke: string }> = {
+  barrier: { fill: '#c8c8c8', stroke: '#ff3333' },
+  tyres: { fill: '#1f1f1f', stroke: '#ffffff' },
+  cone: { fill: '#ff8c00', stroke: '#ffffff' }
+};
+
+const EFFECT_STYLES: Record<EffectType, { icon: string; color: string }> = {
+  speed: { icon: '⚡', color: '#ffff00' },
+  shield: { icon: '🛡', color: '#00ffff' },
+  oiled: { icon: '🛢', color: '#aa66ff' }
+};
+
+const ITEM_LABELS: Record<ItemType, string> = {
+  homing: 'Homing Bottle',
+  lob: 'Lobbed Bottle',
+  oil: 'Oil Slick',
+  mine: 'Mine'
+};
+
+// Played when a projectile or hazard first shows up in the state
+const WEAPON_SOUNDS: Record<ProjectileKind | HazardKind, string> = {
+  bottle: 'throw',
+  homing: 'homing',
+  lob: 'lob',
+  oil: 'oil',
+  mine: 'mine'
+};
+
+/**
+ * Cars still in the race, in race position order
+ */
+function getRacingCars(gameState: GameState): Car[] {
+  return gameState.players
+    .filter(car => !car.isEliminated)
+    .sort((a, b) => a.racePosition - b.racePosition);
+}
+
+/**
+ * Cars the spectator camera can follow: those still driving, or everyone
+ * left once they have all finished
+ */
+function getCameraCars(gameState: GameState): Car[] {
+  const cars = getRacingCars(gameState);
+  const driving = cars.filter(car => GamePhysics.isRacing(car));
+  return driving.length > 0 ? driving : cars;
+}
+
+/**
+ * Whether the local player has no car to drive and only watches the race,
+ * including once their car has finished
+ */
+function isSpectating(gameState: GameState, playerId: string): boolean {
+  const car = gameState.players.find(p => p.playerId === playerId);
+  return !car || !GamePhysics.isRacing(car);
+}
+
+/**
+ * Zoom in on a point, keeping the view inside the track bounds
+ */
+function applyFollowCamera(ctx: CanvasRenderingContext2D, canvas: HTMLCanvasElement, target: Position): void {
+  const halfWidth = canvas.width / (2 * FOLLOW_ZOOM);
+  const halfHeight = canvas.height / (2 * FOLLOW_ZOOM);
+  const x = Math.max(halfWidth, Math.min(canvas.width - halfWidth, target.x));
+  const y = Math.max(halfHeight, Math.min(canvas.height - halfHeight, target.y));
+
+  ctx.translate(canvas.width / 2, canvas.height / 2);
+  ctx.scale(FOLLOW_ZOOM, FOLLOW_ZOOM);
+  ctx.translate(-x, -y);
+}
+
+/**
+ * Draw each team's points, leading team first, below the leaderboard
+ */
+function drawTeamStandings(ctx: CanvasRenderingContext2D, canvas: HTMLCanvasElement, gameState: GameState, top: number): void {
+  const standings = Teams.getStandings(gameState);
+
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
+  ctx.fillRect(canvas.width - 220, top, 200, standings.length * 20 + 35);
+
+  ctx.fillStyle = '#ffffff';
+  ctx.font = '16px Arial';
+  ctx.textAlign = 'left';
+  ctx.fillText('Teams', canvas.width - 210, top + 20);
+
+  standings.forEach((standing, index) => {
+    const y = top + 42 + index * 20;
+    ctx.font = '12px Arial';
+    ctx.fillStyle = Teams.COLORS[standing.team][0];
+    ctx.fillText(Teams.NAMES[standing.team], canvas.width - 210, y);
+    ctx.fillText(`${standing.points} pts`, canvas.width - 100, y);
+  });
+}
+
+/**
+ * Draw the current lap's running time, the last and best laps, and the delta
+ * to the best lap at the last checkpoint
+ */
+function drawLapTimes(ctx: CanvasRenderingContext2D, car: Car): void {
+  const lastLap = car.completedLaps[car.completedLaps.length - 1];
+  const delta = LapTiming.getDelta(car);
+
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
+  ctx.fillRect(10, 10, 170, 90);
+
+  ctx.fillStyle = '#ffffff';
+  ctx.font = '14px Arial';
+  ctx.textAlign = 'left';
+  ctx.fillText(`Lap: ${formatTicks(car.lapTime)}`, 20, 30);
+  ctx.fillText(`Last: ${lastLap ? formatTicks(lastLap.time) : '-'}`, 20, 50);
+  ctx.fillText(`Best: ${car.bestLap ? formatTicks(car.bestLap.time) : '-'}`, 20, 70);
+
+  if (delta !== null) {
+    ctx.fillStyle = delta <= 0 ? '#44ff44' : '#ff4444';
+    ctx.fillText(`Delta: ${formatDelta(delta)}`, 20, 90);
+  }
+}
+
+/**
+ * Draw the player's place in the race as a large "P2/6", green just after
+ * gaining a place and red just after losing one
+ */
+function drawPositionIndicator(ctx: CanvasRenderingContext2D, car: Car, carCount: number, lastChange: PositionChange): void {
+  const recentChange = performance.now() - lastChange.changedAt < POSITION_FLASH_MS ? lastChange.change : 0;
+
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
+  ctx.fillRect(10, 110, 130, 60);
+
+  ctx.fillStyle = recentChange > 0 ? '#44ff44' : recentChange < 0 ? '#ff4444' : '#ffffff';
+  ctx.font = 'bold 40px Arial';
+  ctx.textAlign = 'left';
+  ctx.fillText(`P${car.racePosition}`, 20, 155);
+
+  const width = ctx.measureText(`P${car.racePosition}`).width;
+  ctx.font = 'bold 20px Arial';
+  ctx.fillText(`/${carCount}`, 24 + width, 155);
+}
+
+/**
+ * Draw the player's finishing place and time, and how long the rest have to finish
+ */
+function drawFinishBanner(ctx: CanvasRenderingContext2D, canvas: HTMLCanvasElement, gameState: GameState, car: Car): void {
+  const result = `Finished P${car.finishPosition} ${formatFinish(car)}`;
+  const ticksLeft = getDnfTicksLeft(gameState);
+  const text = ticksLeft !== null ? `${result} • Race ends in ${formatTicks(ticksLeft)}` : result;
+
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
+  ctx.fillRect(canvas.width / 2 - 170, 50, 340, 30);
+
+  ctx.fillStyle = '#44ff44';
+  ctx.font = '16px Arial';
+  ctx.textAlign = 'center';
+  ctx.fillText(text, canvas.width / 2, 70);
+}
+
+/**
+ * Draw the time left on each of the player's active effects above the stats box
+ */
+function drawEffectTimers(ctx: CanvasRenderingContext2D, statsTop: number, car: Car, tick: number): void {
+  car.effects.forEach((effect, index) => {
+    const style = EFFECT_STYLES[effect.type];
+    const remaining = Math.max(0, CarEffects.getRemainingTicks(effect, tick));
+    const x = 10 + index * 100;
+    const y = statsTop - 35;
+
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
+    ctx.fillRect(x, y, 95, 30);
+    ctx.fillStyle = style.color;
+    ctx.fillRect(x, y + 26, 95 * remaining / effect.duration, 4);
+
+    ctx.font = '14px Arial';
+    ctx.textAlign = 'left';
+    ctx.fillText(`${style.icon} ${(remaining / GameSimulation.TICK_RATE).toFixed(1)}s`, x + 8, y + 19);
+  });
+}
+
+/**
+ * Draw the checkered start/finish line across its gate
+ */
+function drawStartLine(ctx: CanvasRenderingContext2D, gate: TrackGate): void {
+  const dx = gate.end.x - gate.start.x;
+  const dy = gate.end.y - gate.start.y;
+  const length = Math.sqrt(dx * dx + dy * dy);
+  const squareSize = 10;
+
+  ctx.save();
+  ctx.translate(gate.start.x, gate.start.y);
+  ctx.rotate(Math.atan2(dy, dx));
+  for (let i = 0; i * squareSize < length; i++) {
+    for (let row = 0; row < 2; row++) {
+      ctx.fillStyle = (i + row) % 2 === 0 ? '#ffffff' : '#000000';
+      ctx.fillRect(i * squareSize, (row - 1) * squareSize, squareSize, squareSize);
+    }
+  }
+  ctx.restore();
+}
+
+/**
+ * Draw large text in the middle of the canvas, e.g. the start countdown
+ */
+function drawCenterMessage(ctx: CanvasRenderingContext2D, canvas: HTMLCanvasElement, text: string, color: string): void {
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.4)';
+  ctx.fillRect(0, canvas.height / 2 - 70, canvas.width, 140);
+
+  ctx.fillStyle = color;
+  ctx.font = 'bold 96px Arial';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(text, canvas.width / 2, canvas.height / 2);
+  ctx.textBaseline = 'alphabetic';
+}
+
+/**
+ * Trace a closed polygon path
+ */
+function tracePolygon(ctx: CanvasRenderingContext2D, polygon: Position[]): void {
+  ctx.beginPath();
+  polygon.forEach((point, index) => {
+    if (index === 0) {
+      ctx.moveTo(point.x, point.y);
+    } else {
+      ctx.lineTo(point.x, point.y);
+    }
+  });
+  ctx.closePath();
+}
+
+export const GameCanvas: React.FC<GameCanvasProps> = ({
+  gameState,
+  playerId,
+  onInputChange,
+  interpolationDelayMs,
+  interpolate = true,
+  cameraTargetId
+}) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const keysRef = useRef({
+  const track = getTrack(gameState.settings.trackId);
+  const gameStateRef = useRef(gameState);
+  const predictionRef = useRef<ClientPrediction | null>(null);
+  if (!predictionRef.current) {
+    predictionRef.current = new ClientPrediction(playerId);
+  }
+  const snapshotsRef = useRef<SnapshotBuffer | null>(null);
+  if (!snapshotsRef.current) {
+    snapshotsRef.current = new SnapshotBuffer({ interpolationDelayMs });
+  }
+  const countdownRef = useRef({ phase: gameState.phase, seconds: 0 });
+  const weaponsRef = useRef(new Map<string, ProjectileKind | HazardKind>());
+  const positionRef = useRef<PositionChange>({ position: 0, change: 0, changedAt: 0 });
+  const cameraRef = useRef<{ mode: CameraMode; targetId: string | null }>({ mode: 'follow', targetId: null });
+  const [cameraMode, setCameraMode] = useState<CameraMode>('follow');
+  const spectating = isSpectating(gameState, playerId);
+  const keysRef = useRef<PlayerInput['keys']>({
     up: false,
     down: false,
     left: false,
     right: false,
-    space: false
+    space: false,
+    item: false
   });
 
+  /**
+   * Car the spectator camera is on: the chosen car while it is still racing,
+   * otherwise the current leader
+   */
+  const getCameraTarget = (gameState: GameState): Car | undefined => {
+    const cars = getCameraCars(gameState);
+    return cars.find(car => car.playerId === cameraRef.current.targetId) || cars[0];
+  };
+
+  /**
+   * Move the spectator camera to the next or previous car in race order
+   */
+  const cycleCameraTarget = useCallback((direction: 1 | -1) => {
+    const cars = getCameraCars(gameStateRef.current);
+    if (cars.length === 0) return;
+
+    const current = cars.findIndex(car => car.playerId === cameraRef.current.targetId);
+    const next = current === -1 ? 0 : (current + direction + cars.length) % cars.length;
+    cameraRef.current = { mode: 'follow', targetId: cars[next].playerId };
+    setCameraMode('follow');
+  }, []);
+
+  const toggleCameraMode = useCallback(() => {
+    const mode = cameraRef.current.mode === 'follow' ? 'overview' : 'follow';
+    cameraRef.current = { ...cameraRef.current, mode };
+    setCameraMode(mode);
+  }, []);
+
   /**
    * Handle keyboard input
    */
   const handleKeyDown = useCallback((e: KeyboardEvent) => {
+    if (isSpectating(gameStateRef.current, playerId)) {
+      switch (e.code) {
+        case 'KeyQ':
+          cycleCameraTarget(-1);
+          return;
+        case 'KeyE':
+          cycleCameraTarget(1);
+          return;
+        case 'KeyV':
+          toggleCameraMode();
+          return;
+      }
+    }
+
     switch (e.code) {
       case 'ArrowUp':
       case 'KeyW':
@@ -42,9 +373,13 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({ gameState, playerId, onI
         keysRef.current.space = true;
         e.preventDefault();
         break;
+      case 'KeyF':
+      case 'ShiftLeft':
+      case 'ShiftRight':
+        keysRef.current.item = true;
+        break;
     }
-    onInputChange(keysRef.current);
-  }, [onInputChange]);
+  }, [playerId, cycleCameraTarget, toggleCameraMode]);
 
   const handleKeyUp = useCallback((e: KeyboardEvent) => {
     switch (e.code) {
@@ -67,9 +402,13 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({ gameState, playerId, onI
       case 'Space':
         keysRef.current.space = false;
         break;
+      case 'KeyF':
+      case 'ShiftLeft':
+      case 'ShiftRight':
+        keysRef.current.item = false;
+        break;
     }
-    onInputChange(keysRef.current);
-  }, [onInputChange]);
+  }, []);
 
   /**
    * Set up event listeners
@@ -84,10 +423,112 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({ gameState, playerId, onI
     };
   }, [handleKeyDown, handleKeyUp]);
 
+  /**
+   * Buffer each authoritative state and reconcile the predicted car with it
+   */
+  useEffect(() => {
+    gameStateRef.current = gameState;
+    snapshotsRef.current?.push(gameState, performance.now());
+    predictionRef.current?.reconcile(gameState);
+  }, [gameState]);
+
+  useEffect(() => {
+    SoundManager.getInstance().initSounds();
+  }, []);
+
+  /**
+   * Follow the car picked outside the canvas, e.g. by the replay viewer
+   */
+  useEffect(() => {
+    if (cameraTargetId === undefined) return;
+    cameraRef.current = { mode: 'follow', targetId: cameraTargetId };
+    setCameraMode('follow');
+  }, [cameraTargetId]);
+
+  /**
+   * Play a beep for each second of the start countdown and a signal on go
+   */
+  useEffect(() => {
+    const soundManager = SoundManager.getInstance();
+    const previous = countdownRef.current;
+    const seconds = gameState.phase === 'countdown'
+      ? Math.ceil(gameState.countdownTicks / GameSimulation.TICK_RATE)
+      : 0;
+
+    if (seconds > 0 && seconds !== previous.seconds) {
+      soundManager.playSound('countdown', 0.6);
+    } else if (gameState.phase === 'racing' && previous.phase === 'countdown') {
+      soundManager.playSound('go', 0.7);
+    }
+
+    countdownRef.current = { phase: gameState.phase, seconds };
+  }, [gameState]);
+
+  /**
+   * Play a sound for each new projectile or hazard, and an explosion when a
+   * lobbed bottle comes down or a mine goes off
+   */
+  useEffect(() => {
+    const soundManager = SoundManager.getInstance();
+    const previous = weaponsRef.current;
+    const current = new Map<string, ProjectileKind | HazardKind>();
+    gameState.bottles.forEach(bottle => current.set(bottle.id, bottle.kind));
+    gameState.hazards.forEach(hazard => current.set(hazard.id, hazard.kind));
+
+    current.forEach((kind, id) => {
+      if (!previous.has(id)) soundManager.playSound(WEAPON_SOUNDS[kind], 0.4);
+    });
+    previous.forEach((kind, id) => {
+      if (!current.has(id) && (kind === 'lob' || kind === 'mine')) soundManager.playSound('explosion', 0.5);
+    });
+
+    weaponsRef.current = current;
+  }, [gameState]);
+
+  /**
+   * Remember when the local car last gained or lost a place
+   */
+  useEffect(() => {
+    const car = gameState.players.find(p => p.playerId === playerId);
+    const previous = positionRef.current;
+    if (!car || car.racePosition === previous.position) return;
+
+    positionRef.current = {
+      position: car.racePosition,
+      change: previous.position > 0 ? previous.position - car.racePosition : 0,
+      changedAt: performance.now()
+    };
+  }, [gameState, playerId]);
+
+  /**
+   * Sample input once per simulation tick, predict locally and send it
+   */
+  useEffect(() => {
+    let lastTime = performance.now();
+    let accumulator = 0;
+
+    const inputLoop = window.setInterval(() => {
+      const now = performance.now();
+      accumulator = Math.min(accumulator + now - lastTime, TICK_MS * MAX_CATCH_UP_TICKS);
+      lastTime = now;
+
+      while (accumulator >= TICK_MS) {
+        accumulator -= TICK_MS;
+        const state = gameStateRef.current;
+        if (state.phase === 'finished' || isSpectating(state, playerId) || !predictionRef.current) continue;
+        onInputChange(predictionRef.current.applyLocalInput(keysRef.current, state));
+      }
+    }, TICK_MS);
+
+    return () => window.clearInterval(inputLoop);
+  }, [onInputChange, playerId]);
+
   /**
    * Draw the game
    */
   const draw = useCallback(() => {
+    const gameState = gameStateRef.current;
+    const renderState = (interpolate && snapshotsRef.current?.sample(performance.now())) || gameState;
     const canvas = canvasRef.current;
     if (!canvas) return;
 
@@ -98,41 +539,120 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({ gameState, playerId, onI
     ctx.fillStyle = '#2d5a27';
     ctx.fillRect(0, 0, canvas.width, canvas.height);
 
-    // Draw track boundaries
-    ctx.strokeStyle = '#ffffff';
-    ctx.lineWidth = 3;
-    ctx.strokeRect(10, 10, canvas.width - 20, canvas.height - 20);
-
-    // Draw start/finish line
-    ctx.fillStyle = '#ffffff';
-    for (let i = 0; i < 10; i++) {
-      ctx.fillRect(20 + i * 20, 20, 10, 30);
+    // Spectators can follow a single car; racers always see the whole track
+    const cameraTarget = isSpectating(gameState, playerId) ? getCameraTarget(renderState) : undefined;
+    ctx.save();
+    if (cameraTarget && cameraRef.current.mode === 'follow') {
+      applyFollowCamera(ctx, canvas, cameraTarget.position);
     }
 
+    // Draw track
+    drawTrack(ctx, getTrack(gameState.settings.trackId));
+
     // Draw power-ups
-    gameState.powerUps.forEach(powerUp => {
+    renderState.powerUps.forEach(powerUp => {
       if (!powerUp.collected) {
         drawPowerUp(ctx, powerUp);
       }
     });
 
+    // Draw oil slicks and mines under the cars
+    renderState.hazards.forEach(hazard => drawHazard(ctx, hazard, renderState.tick));
+
     // Draw bottles
-    gameState.bottles.forEach(bottle => {
+    renderState.bottles.forEach(bottle => {
       if (bottle.active) {
         drawBottle(ctx, bottle);
       }
     });
 
-    // Draw cars
-    gameState.players.forEach(car => {
+    // Draw cars, using the predicted position for the local car
+    const predictedCar = predictionRef.current?.getRenderCar();
+    renderState.players.forEach(car => {
       if (!car.isEliminated) {
-        drawCar(ctx, car, car.playerId === playerId);
+        const isPlayer = car.playerId === playerId;
+        ctx.globalAlpha = car.finishTick !== null ? FINISHED_CAR_ALPHA : 1;
+        drawCar(ctx, isPlayer && predictedCar ? predictedCar : car, isPlayer);
+        ctx.globalAlpha = 1;
       }
     });
+    ctx.restore();
 
     // Draw UI elements
     drawUI(ctx, canvas, gameState, playerId);
-  }, [gameState, playerId]);
+    if (cameraTarget) {
+      drawSpectatorBanner(ctx, canvas, cameraTarget);
+    }
+  }, [playerId, interpolate]);
+
+  /**
+   * Draw the track surface, boundaries and markings
+   */
+  const drawTrack = (ctx: CanvasRenderingContext2D, track: Track) => {
+    // Asphalt between the outer and inner boundaries
+    ctx.fillStyle = '#555555';
+    tracePolygon(ctx, track.outerBoundary);
+    ctx.fill();
+
+    ctx.fillStyle = '#2d5a27';
+    track.innerBoundaries.forEach(boundary => {
+      tracePolygon(ctx, boundary);
+      ctx.fill();
+    });
+
+    // Surface zones that change grip and speed
+    track.surfaces.forEach(zone => {
+      ctx.fillStyle = SURFACE_COLORS[zone.type];
+      tracePolygon(ctx, zone.polygon);
+      ctx.fill();
+    });
+
+    // Boundary walls
+    ctx.strokeStyle = '#ffffff';
+    ctx.lineWidth = 3;
+    [track.outerBoundary, ...track.innerBoundaries].forEach(boundary => {
+      tracePolygon(ctx, boundary);
+      ctx.stroke();
+    });
+
+    // Checkpoint gates
+    ctx.save();
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.25)';
+    ctx.lineWidth = 2;
+    ctx.setLineDash([8, 8]);
+    track.checkpoints.forEach(gate => {
+      ctx.beginPath();
+      ctx.moveTo(gate.start.x, gate.start.y);
+      ctx.lineTo(gate.end.x, gate.end.y);
+      ctx.stroke();
+    });
+    ctx.restore();
+
+    // Power-up pads
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.2)';
+    ctx.lineWidth = 2;
+    track.powerUpPads.forEach(pad => {
+      ctx.beginPath();
+      ctx.arc(pad.x, pad.y, 16, 0, Math.PI * 2);
+      ctx.stroke();
+    });
+
+    drawStartLine(ctx, track.startLine);
+
+    // Obstacles sit on top of everything else on the track
+    ctx.save();
+    ctx.lineWidth = 2;
+    ctx.setLineDash([4, 4]);
+    track.obstacles.forEach(obstacle => {
+      const style = OBSTACLE_STYLES[obstacle.kind];
+      tracePolygon(ctx, obstacle.polygon);
+      ctx.fillStyle = style.fill;
+      ctx.fill();
+      ctx.strokeStyle = style.stroke;
+      ctx.stroke();
+    });
+    ctx.restore();
+  };
 
   /**
    * Draw a car
@@ -142,12 +662,20 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({ gameState, playerId, onI
     ctx.translate(car.position.x, car.position.y);
     ctx.rotate(car.rotation);
 
+    // The player's own car keeps its (team) color and is marked with a halo
+    if (isPlayer) {
+      ctx.fillStyle = 'rgba(255, 255, 255, 0.25)';
+      ctx.beginPath();
+      ctx.arc(0, 0, 22, 0, Math.PI * 2);
+      ctx.fill();
+    }
+
     // Car body
-    ctx.fillStyle = isPlayer ? '#ff4444' : car.color;
+    ctx.fillStyle = car.color;
     ctx.fillRect(-15, -8, 30, 16);
 
     // Car outline
-    ctx.strokeStyle = '#000000';
+    ctx.strokeStyle = isPlayer ? '#ffffff' : '#000000';
     ctx.lineWidth = 2;
     ctx.strokeRect(-15, -8, 30, 16);
 
@@ -173,8 +701,7 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({ gameState, playerId, onI
     ctx.fillText(car.playerName, car.position.x, car.position.y - 30);
 
     // Shield effect
-    const hasShield = car.powerUps.some(p => p.type === 'shield');
-    if (hasShield) {
+    if (GamePhysics.hasShield(car)) {
       ctx.strokeStyle = '#00ffff';
       ctx.lineWidth = 3;
       ctx.beginPath();
@@ -187,16 +714,56 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({ gameState, playerId, onI
    * Draw a bottle projectile
    */
   const drawBottle = (ctx: CanvasRenderingContext2D, bottle: Bottle) => {
-    ctx.fillStyle = '#8B4513';
+    // Lobbed bottles are drawn above their shadow, growing as they rise
+    const height = bottle.kind === 'lob' ? Weapons.getLobHeight(bottle) : 0;
+    if (bottle.kind === 'lob') {
+      ctx.fillStyle = 'rgba(0, 0, 0, 0.35)';
+      ctx.beginPath();
+      ctx.ellipse(bottle.position.x, bottle.position.y, 5, 3, 0, 0, Math.PI * 2);
+      ctx.fill();
+    }
+
+    ctx.fillStyle = bottle.kind === 'homing' ? '#cc2222' : '#8B4513';
     ctx.beginPath();
-    ctx.arc(bottle.position.x, bottle.position.y, 5, 0, Math.PI * 2);
+    ctx.arc(bottle.position.x, bottle.position.y - height, 5 + height / 10, 0, Math.PI * 2);
     ctx.fill();
-    
-    ctx.strokeStyle = '#654321';
-    ctx.lineWidth = 1;
+
+    ctx.strokeStyle = bottle.kind === 'homing' ? '#ffaaaa' : '#654321';
+    ctx.lineWidth = bottle.kind === 'homing' ? 2 : 1;
     ctx.stroke();
   };
 
+  /**
+   * Draw an oil slick or a mine with a blinking light
+   */
+  const drawHazard = (ctx: CanvasRenderingContext2D, hazard: Hazard, tick: number) => {
+    const { x, y } = hazard.position;
+
+    if (hazard.kind === 'oil') {
+      ctx.fillStyle = 'rgba(20, 10, 30, 0.85)';
+      ctx.beginPath();
+      ctx.ellipse(x, y, Weapons.OIL_RADIUS, Weapons.OIL_RADIUS * 0.7, 0, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.strokeStyle = 'rgba(170, 102, 255, 0.6)';
+      ctx.lineWidth = 2;
+      ctx.stroke();
+      return;
+    }
+
+    ctx.fillStyle = '#333333';
+    ctx.beginPath();
+    ctx.arc(x, y, Weapons.MINE_RADIUS, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.strokeStyle = '#999999';
+    ctx.lineWidth = 2;
+    ctx.stroke();
+
+    ctx.fillStyle = Math.floor(tick / 15) % 2 === 0 ? '#ff2222' : '#550000';
+    ctx.beginPath();
+    ctx.arc(x, y, 3, 0, Math.PI * 2);
+    ctx.fill();
+  };
+
   /**
    * Draw a power-up
    */
@@ -205,7 +772,8 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({ gameState, playerId, onI
       speed: '#ffff00',
       shield: '#00ffff',
       health: '#ff00ff',
-      bottles: '#ffa500'
+      bottles: '#ffa500',
+      item: '#ff6600'
     };
 
     ctx.fillStyle = colors[powerUp.type];
@@ -221,7 +789,7 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({ gameState, playerId, onI
     ctx.fillStyle = '#000000';
     ctx.font = '12px Arial';
     ctx.textAlign = 'center';
-    const icons = { speed: '⚡', shield: '🛡', health: '❤', bottles: '🍾' };
+    const icons = { speed: '⚡', shield: '🛡', health: '❤', bottles: '🍾', item: '?' };
     ctx.fillText(icons[powerUp.type], powerUp.position.x, powerUp.position.y + 4);
   };
 
@@ -230,29 +798,36 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({ gameState, playerId, onI
    */
   const drawUI = (ctx: CanvasRenderingContext2D, canvas: HTMLCanvasElement, gameState: GameState, playerId: string) => {
     const player = gameState.players.find(p => p.playerId === playerId);
-    if (!player) return;
 
-    // Player stats
-    ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
-    ctx.fillRect(10, canvas.height - 100, 200, 80);
+    // Player stats, ending with the game mode's own lines
+    if (player && GamePhysics.isRacing(player)) {
+      const lines = [
+        `Item: ${player.heldItem ? ITEM_LABELS[player.heldItem] : '-'}`,
+        `Health: ${player.health}/${player.maxHealth}`,
+        `Bottles: ${player.bottles}`,
+        ...getGameMode(gameState.settings.mode).getHudLines(gameState, player)
+      ];
+      const top = canvas.height - 40 - lines.length * 20;
 
-    ctx.fillStyle = '#ffffff';
-    ctx.font = '14px Arial';
-    ctx.textAlign = 'left';
-    ctx.fillText(`Health: ${player.health}/${player.maxHealth}`, 20, canvas.height - 75);
-    ctx.fillText(`Bottles: ${player.bottles}`, 20, canvas.height - 55);
-    ctx.fillText(`Lap: ${player.lap}/${gameState.maxLaps}`, 20, canvas.height - 35);
+      ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
+      ctx.fillRect(10, top, 200, lines.length * 20 + 20);
+
+      ctx.fillStyle = '#ffffff';
+      ctx.font = '14px Arial';
+      ctx.textAlign = 'left';
+      lines.forEach((line, index) => ctx.fillText(line, 20, top + 25 + index * 20));
+
+      drawEffectTimers(ctx, top, player, gameState.tick);
+      drawLapTimes(ctx, player);
+      drawPositionIndicator(ctx, player, gameState.players.length, positionRef.current);
+    }
 
     // Leaderboard
-    const sortedPlayers = [...gameState.players]
-      .filter(p => !p.isEliminated)
-      .sort((a, b) => {
-        if (a.lap !== b.lap) return b.lap - a.lap;
-        return a.totalTime - b.totalTime;
-      });
+    const sortedPlayers = getRacingCars(gameState);
+    const leaderboardHeight = Math.min(sortedPlayers.length * 25 + 20, 200);
 
     ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
-    ctx.fillRect(canvas.width - 220, 10, 200, Math.min(sortedPlayers.length * 25 + 20, 200));
+    ctx.fillRect(canvas.width - 220, 10, 200, leaderboardHeight);
 
     ctx.fillStyle = '#ffffff';
     ctx.font = '16px Arial';
@@ -264,46 +839,108 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({ gameState, playerId, onI
       const y = 50 + index * 25;
       const isCurrentPlayer = car.playerId === playerId;
       ctx.fillStyle = isCurrentPlayer ? '#ffff00' : '#ffffff';
-      ctx.fillText(`${index + 1}. ${car.playerName}`, canvas.width - 210, y);
-      ctx.fillText(`Lap ${car.lap}`, canvas.width - 100, y);
+      ctx.fillText(`${car.racePosition}. ${car.playerName}`, canvas.width - 210, y);
+      ctx.fillText(formatFinish(car), canvas.width - 100, y);
     });
 
+    if (gameState.settings.teams) {
+      drawTeamStandings(ctx, canvas, gameState, leaderboardHeight + 20);
+    }
+
+    // Start countdown overlay
+    if (gameState.phase === 'countdown') {
+      const seconds = Math.ceil(gameState.countdownTicks / GameSimulation.TICK_RATE);
+      drawCenterMessage(ctx, canvas, seconds.toString(), '#ffffff');
+    } else if (gameState.phase === 'racing' && gameState.raceTime < GameSimulation.TICK_RATE) {
+      drawCenterMessage(ctx, canvas, 'GO!', '#44ff44');
+    }
+
+    // The player's result while the rest of the field finishes
+    if (player && player.finishTick !== null && gameState.phase === 'racing') {
+      drawFinishBanner(ctx, canvas, gameState, player);
+    }
+
     // Game timer
-    if (gameState.gameStarted && !gameState.gameEnded) {
+    if (gameState.phase === 'racing') {
       ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
       ctx.fillRect(canvas.width / 2 - 50, 10, 100, 30);
       
       ctx.fillStyle = '#ffffff';
       ctx.font = '16px Arial';
       ctx.textAlign = 'center';
-      const minutes = Math.floor(gameState.raceTime / 60);
-      const seconds = gameState.raceTime % 60;
-      ctx.fillText(`${minutes}:${seconds.toString().padStart(2, '0')}`, canvas.width / 2, 30);
+      ctx.fillText(formatTicks(gameState.raceTime), canvas.width / 2, 30);
     }
   };
 
+  /**
+   * Show which car the spectator camera is watching
+   */
+  const drawSpectatorBanner = (ctx: CanvasRenderingContext2D, canvas: HTMLCanvasElement, target: Car) => {
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
+    ctx.fillRect(10, canvas.height - 60, 260, 40);
+
+    ctx.fillStyle = '#ffffff';
+    ctx.font = '14px Arial';
+    ctx.textAlign = 'left';
+    const gameState = gameStateRef.current;
+    const [status] = getGameMode(gameState.settings.mode).getHudLines(gameState, target);
+    ctx.fillText(`Spectating: ${target.playerName} (${status})`, 20, canvas.height - 35);
+  };
+
   /**
    * Animation loop
    */
   useEffect(() => {
+    let frame = 0;
     const animate = () => {
       draw();
-      requestAnimationFrame(animate);
+      frame = requestAnimationFrame(animate);
     };
     animate();
+
+    return () => cancelAnimationFrame(frame);
   }, [draw]);
 
   return (
-    <div className="relative">
-      <canvas
-        ref={canvasRef}
-        width={800}
-        height={600}
-        className="border-2 border-gray-800 bg-green-800"
-        tabIndex={0}
-      />
-      <div className="absolute top-2 left-2 text-white text-sm bg-black bg-opacity-50 p-2 rounded">
-        <p>Controls: WASD or Arrow Keys to move, Space to throw bottles</p>
+    <div>
+      <div className="relative">
+        <canvas
+          ref={canvasRef}
+          width={track.width}
+          height={track.height}
+          className="border-2 border-gray-800 bg-green-800"
+          tabIndex={0}
+        />
+        {spectating && (
+          <div className="absolute bottom-2 right-2 flex gap-2">
+            <button
+              onClick={() => cycleCameraTarget(-1)}
+              className="px-3 py-1 bg-black bg-opacity-60 text-white text-sm rounded hover:bg-opacity-80"
+            >
+              Previous
+            </button>
+            <button
+              onClick={() => cycleCameraTarget(1)}
+              className="px-3 py-1 bg-black bg-opacity-60 text-white text-sm rounded hover:bg-opacity-80"
+            >
+              Next
+            </button>
+            <button
+              onClick={toggleCameraMode}
+              className="px-3 py-1 bg-black bg-opacity-60 text-white text-sm rounded hover:bg-opacity-80"
+            >
+              {cameraMode === 'follow' ? 'Whole Track' : 'Follow Car'}
+            </button>
+          </div>
+        )}
+      </div>
+      {/* Below the canvas, so it never covers the HUD */}
+      <div className="mt-2 text-white text-sm bg-black bg-opacity-50 p-2 rounded">
+        {spectating ? (
+          <p>Spectating: Q/E to switch cars, V to toggle the track overview</p>
+        ) : (
+          <p>Controls: WASD or Arrow Keys to move, Space to throw bottles, F or Shift to use your item</p>
+        )}
       </div>
     </div>
   );
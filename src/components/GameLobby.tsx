@@ -1,6 +1,39 @@
-import React, { useState } from 'react';
-import { Users, Play, Settings } from 'lucide-react';
-import { GameRoom } from '../types/game';
+import React, { useEffect, useState } from 'react';
+import { Users, Play, Settings, WifiOff, CheckCircle, Eye, Bot, X, Shuffle } from 'lucide-react';
+import { BotDifficulty, GameModeId, GameRoom, PowerUpDensity, PowerUpType, RoomPlayer, RoomSettings, TeamId } from '../types/game';
+import { BotDriver } from '../utils/botDriver';
+import { RoomSettingsValidator } from '../utils/roomSettings';
+import { Teams } from '../utils/teams';
+import { TRACKS } from '../tracks';
+import { GAME_MODES, getGameMode } from '../modes';
+
+const POWER_UP_LABELS: Record<PowerUpType, string> = {
+  speed: 'Speed',
+  shield: 'Shield',
+  health: 'Health',
+  bottles: 'Bottles',
+  item: 'Item Boxes'
+};
+
+const POWER_UP_DENSITY_OPTIONS: [PowerUpDensity, string][] = [
+  ['off', 'Off'],
+  ['low', 'Low'],
+  ['medium', 'Medium'],
+  ['high', 'High']
+];
+
+const BOT_DIFFICULTY_LABELS: Record<BotDifficulty, string> = {
+  easy: 'Easy',
+  medium: 'Medium',
+  hard: 'Hard'
+};
+
+const TEAM_BADGE_CLASSES: Record<TeamId, string> = {
+  red: 'bg-red-100 text-red-800',
+  blue: 'bg-blue-100 text-blue-800'
+};
+
+const selectClassName = 'w-full p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-100 disabled:text-gray-600';
 
 interface GameLobbyProps {
   room: GameRoom;
@@ -8,6 +41,13 @@ interface GameLobbyProps {
   playerName: string;
   onStartGame: () => void;
   onLeaveRoom: () => void;
+  onUpdateSettings: (settings: Partial<RoomSettings>) => void;
+  onSetReady: (ready: boolean) => void;
+  onSetSpectating: (spectating: boolean) => void;
+  onAddBot: (difficulty: BotDifficulty) => void;
+  onRemoveBot: (botId: string) => void;
+  onSetTeam: (team: TeamId, playerId?: string) => void;
+  onBalanceTeams: () => void;
   isHost: boolean;
 }
 
@@ -17,9 +57,50 @@ export const GameLobby: React.FC<GameLobbyProps> = ({
   playerName,
   onStartGame,
   onLeaveRoom,
+  onUpdateSettings,
+  onSetReady,
+  onSetSpectating,
+  onAddBot,
+  onRemoveBot,
+  onSetTeam,
+  onBalanceTeams,
   isHost
 }) => {
-  const [maxLaps, setMaxLaps] = useState(3);
+  const { settings } = room;
+  const mode = getGameMode(settings.mode);
+  const [now, setNow] = useState(() => Date.now());
+  const [botDifficulty, setBotDifficulty] = useState<BotDifficulty>('medium');
+  const isReady = room.players.find(player => player.id === playerId)?.ready ?? false;
+  const isSpectator = room.spectators.some(spectator => spectator.id === playerId);
+  const isFull = room.players.length >= settings.maxPlayers;
+  const notReadyCount = room.players.filter(player => !player.ready && player.id !== room.host).length;
+  const startingInSeconds = room.startDeadline ? Math.max(0, Math.ceil((room.startDeadline - now) / 1000)) : null;
+
+  // Tick the "starting in" countdown while the host's start is pending
+  useEffect(() => {
+    if (!room.startDeadline) return;
+
+    const interval = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(interval);
+  }, [room.startDeadline]);
+
+  const maxPlayerOptions = Array.from(
+    { length: RoomSettingsValidator.MAX_PLAYERS - RoomSettingsValidator.MIN_PLAYERS + 1 },
+    (_, index) => RoomSettingsValidator.MIN_PLAYERS + index
+  );
+
+  // Moves a player to the other team; players can move themselves, the host anyone
+  const switchTeam = (player: RoomPlayer) => {
+    const team = Teams.TEAM_IDS.find(id => id !== player.team) ?? Teams.TEAM_IDS[0];
+    onSetTeam(team, player.id === playerId ? undefined : player.id);
+  };
+
+  const togglePowerUp = (type: PowerUpType) => {
+    const enabledPowerUps = settings.enabledPowerUps.includes(type)
+      ? settings.enabledPowerUps.filter(enabled => enabled !== type)
+      : [...settings.enabledPowerUps, type];
+    onUpdateSettings({ enabledPowerUps });
+  };
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-900 to-purple-900 flex items-center justify-center p-4">
@@ -35,38 +116,73 @@ export const GameLobby: React.FC<GameLobbyProps> = ({
           <div className="flex items-center mb-4">
             <Users className="w-5 h-5 mr-2 text-blue-600" />
             <h2 className="text-xl font-semibold text-gray-800">
-              Players ({room.players.length}/{room.maxPlayers})
+              Players ({room.players.length}/{settings.maxPlayers})
             </h2>
           </div>
           
           <div className="grid grid-cols-2 gap-4">
-            {room.players.map((player, index) => {
-              const playerData = typeof player === 'string' ? { id: player, name: `Player ${index + 1}` } : player;
-              return (
+            {room.players.map((player) => (
               <div
-                key={playerData.id}
+                key={player.id}
                 className={`p-4 rounded-lg border-2 ${
-                  playerData.id === playerId
+                  player.id === playerId
                     ? 'border-blue-500 bg-blue-50'
                     : 'border-gray-200 bg-gray-50'
                 }`}
               >
                 <div className="flex items-center justify-between">
-                  <span className="font-medium text-gray-800">
-                    {playerData.id === playerId ? playerName : playerData.name}
+                  <span className={`font-medium ${player.connected ? 'text-gray-800' : 'text-gray-400'}`}>
+                    {player.id === playerId ? playerName : player.name}
                   </span>
-                  {room.host === playerData.id && (
-                    <span className="text-xs bg-yellow-100 text-yellow-800 px-2 py-1 rounded-full">
-                      HOST
-                    </span>
-                  )}
+                  <div className="flex gap-1">
+                    {settings.teams && player.team && (
+                      <button
+                        onClick={() => switchTeam(player)}
+                        disabled={!isHost && player.id !== playerId}
+                        className={`text-xs px-2 py-1 rounded-full disabled:cursor-default ${TEAM_BADGE_CLASSES[player.team]}`}
+                        title={isHost || player.id === playerId ? 'Switch team' : undefined}
+                      >
+                        {player.team.toUpperCase()}
+                      </button>
+                    )}
+                    {!player.connected && (
+                      <span className="text-xs bg-gray-200 text-gray-600 px-2 py-1 rounded-full flex items-center">
+                        <WifiOff className="w-3 h-3 mr-1" />
+                        RECONNECTING
+                      </span>
+                    )}
+                    {player.bot && (
+                      <span className="text-xs bg-purple-100 text-purple-800 px-2 py-1 rounded-full flex items-center">
+                        <Bot className="w-3 h-3 mr-1" />
+                        {BOT_DIFFICULTY_LABELS[player.bot].toUpperCase()}
+                      </span>
+                    )}
+                    {player.ready && !player.bot && room.host !== player.id && (
+                      <span className="text-xs bg-green-100 text-green-800 px-2 py-1 rounded-full">
+                        READY
+                      </span>
+                    )}
+                    {player.bot && isHost && (
+                      <button
+                        onClick={() => onRemoveBot(player.id)}
+                        className="p-1 rounded-full text-gray-500 hover:bg-gray-200 hover:text-gray-700"
+                        title="Remove bot"
+                      >
+                        <X className="w-3 h-3" />
+                      </button>
+                    )}
+                    {room.host === player.id && (
+                      <span className="text-xs bg-yellow-100 text-yellow-800 px-2 py-1 rounded-full">
+                        HOST
+                      </span>
+                    )}
+                  </div>
                 </div>
               </div>
-              );
-            })}
+            ))}
             
             {/* Empty slots */}
-            {Array.from({ length: room.maxPlayers - room.players.length }).map((_, index) => (
+            {Array.from({ length: settings.maxPlayers - room.players.length }).map((_, index) => (
               <div
                 key={`empty-${index}`}
                 className="p-4 rounded-lg border-2 border-dashed border-gray-300 bg-gray-100"
@@ -75,45 +191,279 @@ export const GameLobby: React.FC<GameLobbyProps> = ({
               </div>
             ))}
           </div>
+
+          {isHost && (
+            <div className="flex gap-2 mt-4">
+              <select
+                value={botDifficulty}
+                onChange={(e) => setBotDifficulty(e.target.value as BotDifficulty)}
+                className="p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                {BotDriver.DIFFICULTIES.map(difficulty => (
+                  <option key={difficulty} value={difficulty}>{BOT_DIFFICULTY_LABELS[difficulty]}</option>
+                ))}
+              </select>
+              <button
+                onClick={() => onAddBot(botDifficulty)}
+                disabled={isFull}
+                className="px-4 py-2 bg-purple-600 text-white rounded-md hover:bg-purple-700 transition-colors flex items-center disabled:bg-gray-300 disabled:text-gray-500 disabled:cursor-not-allowed"
+              >
+                <Bot className="w-4 h-4 mr-2" />
+                Add Bot
+              </button>
+              {settings.teams && (
+                <button
+                  onClick={onBalanceTeams}
+                  className="px-4 py-2 bg-gray-600 text-white rounded-md hover:bg-gray-700 transition-colors flex items-center"
+                >
+                  <Shuffle className="w-4 h-4 mr-2" />
+                  Balance Teams
+                </button>
+              )}
+            </div>
+          )}
         </div>
 
-        {/* Game Settings (Host Only) */}
-        {isHost && (
-          <div className="mb-8 p-4 bg-gray-50 rounded-lg">
-            <div className="flex items-center mb-4">
-              <Settings className="w-5 h-5 mr-2 text-gray-600" />
-              <h3 className="text-lg font-semibold text-gray-800">Game Settings</h3>
+        {/* Spectators */}
+        {room.spectators.length > 0 && (
+          <div className="mb-8">
+            <div className="flex items-center mb-2">
+              <Eye className="w-5 h-5 mr-2 text-gray-600" />
+              <h2 className="text-lg font-semibold text-gray-800">
+                Spectators ({room.spectators.length})
+              </h2>
             </div>
-            
-            <div className="space-y-4">
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Number of Laps
-                </label>
-                <select
-                  value={maxLaps}
-                  onChange={(e) => setMaxLaps(Number(e.target.value))}
-                  className="w-full p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            <div className="flex flex-wrap gap-2">
+              {room.spectators.map(spectator => (
+                <span
+                  key={spectator.id}
+                  className={`text-sm px-3 py-1 rounded-full ${
+                    spectator.id === playerId ? 'bg-blue-100 text-blue-800' : 'bg-gray-100 text-gray-700'
+                  } ${spectator.connected ? '' : 'opacity-50'}`}
                 >
-                  <option value={1}>1 Lap</option>
-                  <option value={3}>3 Laps</option>
-                  <option value={5}>5 Laps</option>
-                  <option value={10}>10 Laps</option>
-                </select>
-              </div>
+                  {spectator.id === playerId ? playerName : spectator.name}
+                </span>
+              ))}
             </div>
           </div>
         )}
 
+        {/* Race Settings (editable by the host) */}
+        <div className="mb-8 p-4 bg-gray-50 rounded-lg">
+          <div className="flex items-center mb-4">
+            <Settings className="w-5 h-5 mr-2 text-gray-600" />
+            <h3 className="text-lg font-semibold text-gray-800">Race Settings</h3>
+            {!isHost && (
+              <span className="ml-auto text-xs text-gray-500">Set by the host</span>
+            )}
+          </div>
+          
+          <div className="grid grid-cols-2 gap-4">
+            <div className="col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Game Mode
+              </label>
+              <select
+                value={settings.mode}
+                onChange={(e) => onUpdateSettings({ mode: e.target.value as GameModeId })}
+                disabled={!isHost}
+                className={selectClassName}
+              >
+                {Object.values(GAME_MODES).map(option => (
+                  <option key={option.id} value={option.id}>{option.name}</option>
+                ))}
+              </select>
+              <p className="mt-1 text-xs text-gray-500">{mode.description}</p>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Track
+              </label>
+              <select
+                value={settings.trackId}
+                onChange={(e) => onUpdateSettings({ trackId: e.target.value })}
+                disabled={!isHost}
+                className={selectClassName}
+              >
+                {Object.values(TRACKS).map(track => (
+                  <option key={track.id} value={track.id}>{track.name}</option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Number of Laps
+              </label>
+              <select
+                value={settings.laps}
+                onChange={(e) => onUpdateSettings({ laps: Number(e.target.value) })}
+                disabled={!isHost || !mode.lapLimit}
+                className={selectClassName}
+              >
+                {RoomSettingsValidator.LAP_OPTIONS.map(laps => (
+                  <option key={laps} value={laps}>{laps} {laps === 1 ? 'Lap' : 'Laps'}</option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Time to Finish After Winner
+              </label>
+              <select
+                value={settings.dnfTimeout}
+                onChange={(e) => onUpdateSettings({ dnfTimeout: Number(e.target.value) })}
+                disabled={!isHost || !mode.lapLimit}
+                className={selectClassName}
+              >
+                {RoomSettingsValidator.DNF_TIMEOUT_OPTIONS.map(seconds => (
+                  <option key={seconds} value={seconds}>{seconds} seconds</option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Max Players
+              </label>
+              <select
+                value={settings.maxPlayers}
+                onChange={(e) => onUpdateSettings({ maxPlayers: Number(e.target.value) })}
+                disabled={!isHost}
+                className={selectClassName}
+              >
+                {maxPlayerOptions.map(count => (
+                  <option key={count} value={count} disabled={count < room.players.length}>{count} Players</option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Power-ups
+              </label>
+              <select
+                value={settings.powerUpDensity}
+                onChange={(e) => onUpdateSettings({ powerUpDensity: e.target.value as PowerUpDensity })}
+                disabled={!isHost}
+                className={selectClassName}
+              >
+                {POWER_UP_DENSITY_OPTIONS.map(([density, label]) => (
+                  <option key={density} value={density}>{label}</option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Starting Bottles
+              </label>
+              <input
+                type="number"
+                min={0}
+                max={RoomSettingsValidator.MAX_STARTING_BOTTLES}
+                value={settings.startingBottles}
+                onChange={(e) => onUpdateSettings({ startingBottles: Number(e.target.value) })}
+                disabled={!isHost}
+                className={selectClassName}
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Bottle Damage
+              </label>
+              <input
+                type="number"
+                min={RoomSettingsValidator.MIN_BOTTLE_DAMAGE}
+                max={RoomSettingsValidator.MAX_BOTTLE_DAMAGE}
+                step={5}
+                value={settings.bottleDamage}
+                onChange={(e) => onUpdateSettings({ bottleDamage: Number(e.target.value) })}
+                disabled={!isHost}
+                className={selectClassName}
+              />
+            </div>
+          </div>
+
+          <div className="mt-4">
+            <span className="block text-sm font-medium text-gray-700 mb-2">
+              Enabled Power-ups
+            </span>
+            <div className="flex flex-wrap gap-4">
+              {RoomSettingsValidator.POWER_UP_TYPES.map(type => (
+                <label key={type} className="flex items-center text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={settings.enabledPowerUps.includes(type)}
+                    onChange={() => togglePowerUp(type)}
+                    disabled={!isHost}
+                    className="mr-2"
+                  />
+                  {POWER_UP_LABELS[type]}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <label className="mt-4 flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={settings.bottleKnockback}
+              onChange={(e) => onUpdateSettings({ bottleKnockback: e.target.checked })}
+              disabled={!isHost}
+              className="mr-2"
+            />
+            Bottle hits knock cars back
+          </label>
+
+          <label className="mt-2 flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={settings.selfHit}
+              onChange={(e) => onUpdateSettings({ selfHit: e.target.checked })}
+              disabled={!isHost}
+              className="mr-2"
+            />
+            Your own bottles and mines can hit you
+          </label>
+
+          <label className="mt-2 flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={settings.teams}
+              onChange={(e) => onUpdateSettings({ teams: e.target.checked })}
+              disabled={!isHost}
+              className="mr-2"
+            />
+            Team race (Red vs Blue, points by finishing position)
+          </label>
+
+          <label className="mt-2 flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={settings.friendlyFire}
+              onChange={(e) => onUpdateSettings({ friendlyFire: e.target.checked })}
+              disabled={!isHost || !settings.teams}
+              className="mr-2"
+            />
+            Friendly fire: bottles, mines and rams hurt teammates
+          </label>
+        </div>
+
         {/* Game Rules */}
         <div className="mb-8 p-4 bg-blue-50 rounded-lg">
           <h3 className="text-lg font-semibold text-blue-800 mb-3">Game Rules</h3>
           <ul className="text-sm text-blue-700 space-y-1">
             <li>• Use WASD or arrow keys to control your car</li>
-            <li>• Press SPACE to throw bottles at opponents</li>
+            <li>• Tap SPACE to throw a bottle at opponents; each press throws one</li>
             <li>• Collect power-ups for speed boosts, shields, and more bottles</li>
+            <li>• Item boxes give one item at a time; press F or Shift to use it</li>
             <li>• Avoid getting hit - when health reaches zero, you're eliminated!</li>
-            <li>• Complete the required number of laps to win</li>
+            <li>• Ready up in the lobby; the race starts after a 3-2-1 countdown</li>
+            <li>• {mode.name}: {mode.description}</li>
           </ul>
         </div>
 
@@ -129,23 +479,56 @@ export const GameLobby: React.FC<GameLobbyProps> = ({
           {isHost ? (
             <button
               onClick={onStartGame}
-              disabled={room.players.length < 2}
+              disabled={room.players.length < 2 || startingInSeconds !== null}
               className={`flex-1 px-6 py-3 rounded-lg font-medium transition-colors flex items-center justify-center ${
-                room.players.length >= 2
+                room.players.length >= 2 && startingInSeconds === null
                   ? 'bg-green-600 text-white hover:bg-green-700'
                   : 'bg-gray-300 text-gray-500 cursor-not-allowed'
               }`}
             >
               <Play className="w-5 h-5 mr-2" />
-              Start Race
+              {notReadyCount > 0 ? `Start Race (${notReadyCount} not ready)` : 'Start Race'}
+            </button>
+          ) : isSpectator ? (
+            <button
+              onClick={() => onSetSpectating(false)}
+              disabled={isFull}
+              className="flex-1 px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium flex items-center justify-center disabled:bg-gray-300 disabled:text-gray-500 disabled:cursor-not-allowed"
+            >
+              <Play className="w-5 h-5 mr-2" />
+              {isFull ? 'Race is full' : 'Join the Race'}
             </button>
           ) : (
-            <div className="flex-1 px-6 py-3 bg-yellow-100 text-yellow-800 rounded-lg text-center font-medium">
-              Waiting for host to start...
-            </div>
+            <button
+              onClick={() => onSetReady(!isReady)}
+              className={`flex-1 px-6 py-3 rounded-lg font-medium transition-colors flex items-center justify-center ${
+                isReady
+                  ? 'bg-green-600 text-white hover:bg-green-700'
+                  : 'bg-yellow-100 text-yellow-800 hover:bg-yellow-200'
+              }`}
+            >
+              <CheckCircle className="w-5 h-5 mr-2" />
+              {isReady ? 'Ready!' : 'Ready Up'}
+            </button>
           )}
         </div>
 
+        {!isHost && !isSpectator && (
+          <button
+            onClick={() => onSetSpectating(true)}
+            className="w-full mt-3 text-sm text-gray-500 hover:text-gray-700 flex items-center justify-center"
+          >
+            <Eye className="w-4 h-4 mr-1" />
+            Watch this race instead
+          </button>
+        )}
+
+        {startingInSeconds !== null && (
+          <p className="text-center text-gray-700 text-sm mt-4 font-medium">
+            Race starts when everyone is ready, or in {startingInSeconds}s
+          </p>
+        )}
+
         {room.players.length < 2 && isHost && (
           <p className="text-center text-gray-500 text-sm mt-4">
             Need at least 2 players to start the race
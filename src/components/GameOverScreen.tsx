@@ -1,30 +1,50 @@
 import React from 'react';
-import { Trophy, Medal, RotateCcw, Home } from 'lucide-react';
-import { GameState } from '../types/game';
+import { Trophy, Medal, RotateCcw, Home, Play, Film, Download } from 'lucide-react';
+import { GameRoom, GameState, TeamId } from '../types/game';
+import { formatGap, formatSeconds, formatTicks, getGameMode } from '../modes';
+import { LapTiming } from '../utils/lapTiming';
+import { Teams } from '../utils/teams';
+
+const TEAM_TEXT_CLASSES: Record<TeamId, string> = {
+  red: 'text-red-600',
+  blue: 'text-blue-600'
+};
 
 interface GameOverScreenProps {
   gameState: GameState;
+  room: GameRoom;
   playerId: string;
   onPlayAgain: () => void;
+  onStartRematch: () => void;
   onBackToMenu: () => void;
+  onWatchReplay: () => void;
+  onDownloadReplay: () => void;
+  isHost: boolean;
 }
 
 export const GameOverScreen: React.FC<GameOverScreenProps> = ({
   gameState,
+  room,
   playerId,
   onPlayAgain,
-  onBackToMenu
+  onStartRematch,
+  onBackToMenu,
+  onWatchReplay,
+  onDownloadReplay,
+  isHost
 }) => {
-  const sortedPlayers = [...gameState.players]
-    .sort((a, b) => {
-      if (a.isEliminated && !b.isEliminated) return 1;
-      if (!a.isEliminated && b.isEliminated) return -1;
-      if (a.lap !== b.lap) return b.lap - a.lap;
-      return a.totalTime - b.totalTime;
-    });
+  const hasVoted = room.rematchVotes.includes(playerId);
+  // Racers knocked out mid-race spectated the rest, but keep their slot and vote on the rematch
+  const hasRaceSlot = room.players.some(player => player.id === playerId);
+  const voterCount = room.players.filter(player => player.connected && !player.bot).length;
+  const mode = getGameMode(gameState.settings.mode);
+  const sortedPlayers = [...gameState.players].sort(mode.compareStandings);
 
   const playerPosition = sortedPlayers.findIndex(p => p.playerId === playerId) + 1;
-  const winner = sortedPlayers[0];
+  const playerCar = sortedPlayers[playerPosition - 1];
+  const winner = gameState.players.find(p => p.playerId === gameState.winner);
+  const teamStandings = gameState.settings.teams ? Teams.getStandings(gameState) : [];
+  const winningTeam = teamStandings[0];
 
   const getPositionColor = (position: number) => {
     switch (position) {
@@ -52,52 +72,118 @@ export const GameOverScreen: React.FC<GameOverScreenProps> = ({
             <Trophy className="w-16 h-16 text-yellow-500" />
           </div>
           <h1 className="text-4xl font-bold text-gray-800 mb-2">Race Complete!</h1>
+          <p className="text-sm font-medium text-gray-500 uppercase tracking-wide mb-2">{mode.name}</p>
           {winner && (
             <p className="text-xl text-gray-600">
               🏆 Winner: <span className="font-bold text-yellow-600">{winner.playerName}</span>
             </p>
           )}
+          {winningTeam && (
+            <p className="text-lg text-gray-600 mt-1">
+              Winning team: <span className={`font-bold ${TEAM_TEXT_CLASSES[winningTeam.team]}`}>{Teams.NAMES[winningTeam.team]}</span>
+            </p>
+          )}
         </div>
 
         {/* Player's Result */}
-        <div className={`mb-8 p-6 rounded-xl border-2 ${
-          playerPosition === 1 
-            ? 'border-yellow-400 bg-yellow-50' 
-            : playerPosition <= 3 
-              ? 'border-blue-400 bg-blue-50'
-              : 'border-gray-300 bg-gray-50'
-        }`}>
-          <div className="flex items-center justify-center mb-4">
-            <div className={`flex items-center ${getPositionColor(playerPosition)}`}>
-              {getPositionIcon(playerPosition)}
-              <span className="ml-2 text-2xl font-bold">
-                {playerPosition === 1 ? '1st Place!' : 
-                 playerPosition === 2 ? '2nd Place!' :
-                 playerPosition === 3 ? '3rd Place!' :
-                 `${playerPosition}th Place`}
-              </span>
+        {playerPosition > 0 && (
+          <div className={`mb-8 p-6 rounded-xl border-2 ${
+            playerPosition === 1 
+              ? 'border-yellow-400 bg-yellow-50' 
+              : playerPosition <= 3 
+                ? 'border-blue-400 bg-blue-50'
+                : 'border-gray-300 bg-gray-50'
+          }`}>
+            <div className="flex items-center justify-center mb-4">
+              <div className={`flex items-center ${getPositionColor(playerPosition)}`}>
+                {getPositionIcon(playerPosition)}
+                <span className="ml-2 text-2xl font-bold">
+                  {playerPosition === 1 ? '1st Place!' : 
+                   playerPosition === 2 ? '2nd Place!' :
+                   playerPosition === 3 ? '3rd Place!' :
+                   `${playerPosition}th Place`}
+                </span>
+              </div>
             </div>
-          </div>
           
-          <div className="text-center text-gray-700">
-            <p className="text-lg">Your Performance:</p>
-            <div className="grid grid-cols-2 gap-4 mt-2">
-              <div>
-                <span className="font-semibold">Laps Completed:</span>
-                <br />
-                <span className="text-xl">{gameState.players.find(p => p.playerId === playerId)?.lap || 0}</span>
-              </div>
-              <div>
-                <span className="font-semibold">Total Time:</span>
-                <br />
-                <span className="text-xl">
-                  {Math.floor((gameState.players.find(p => p.playerId === playerId)?.totalTime || 0) / 60)}:
-                  {((gameState.players.find(p => p.playerId === playerId)?.totalTime || 0) % 60).toString().padStart(2, '0')}
-                </span>
+            <div className="text-center text-gray-700">
+              <p className="text-lg">Your Performance:</p>
+              <div className="grid grid-cols-2 gap-4 mt-2">
+                <div>
+                  <span className="font-semibold">Laps Completed:</span>
+                  <br />
+                  <span className="text-xl">{playerCar.lap}</span>
+                </div>
+                <div>
+                  <span className="font-semibold">Result:</span>
+                  <br />
+                  <span className="text-xl">{mode.describeResult(gameState, playerCar)}</span>
+                  {playerCar.finishGap !== null && playerCar.finishGap > 0 && (
+                    <div className="text-sm text-gray-500">{formatGap(playerCar.finishGap)} behind the winner</div>
+                  )}
+                </div>
               </div>
             </div>
           </div>
-        </div>
+        )}
+
+        {/* Lap Breakdown */}
+        {playerCar && playerCar.completedLaps.length > 0 && (
+          <div className="mb-8">
+            <h2 className="text-2xl font-bold text-gray-800 mb-4 text-center">Your Laps</h2>
+            <table className="w-full text-sm text-gray-700">
+              <thead>
+                <tr className="text-gray-500">
+                  <th className="text-left py-1">Lap</th>
+                  {playerCar.completedLaps[0].splits.map((_, index) => (
+                    <th key={index} className="text-right py-1">S{index + 1}</th>
+                  ))}
+                  <th className="text-right py-1">Time</th>
+                </tr>
+              </thead>
+              <tbody>
+                {playerCar.completedLaps.map((lap, index) => {
+                  const isBest = lap.time === playerCar.bestLap?.time;
+
+                  return (
+                    <tr key={index} className={`border-t border-gray-200 ${isBest ? 'font-bold text-green-700' : ''}`}>
+                      <td className="py-1">{index + 1}</td>
+                      {LapTiming.getSectorTimes(lap).map((sector, sectorIndex) => (
+                        <td key={sectorIndex} className="text-right py-1">{formatSeconds(sector)}</td>
+                      ))}
+                      <td className="text-right py-1">{formatTicks(lap.time)}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {/* Team Standings */}
+        {teamStandings.length > 0 && (
+          <div className="mb-8">
+            <h2 className="text-2xl font-bold text-gray-800 mb-4 text-center">Team Standings</h2>
+            <div className="grid grid-cols-2 gap-4">
+              {teamStandings.map(standing => (
+                <div key={standing.team} className="p-4 rounded-lg border-2 border-gray-200 bg-gray-50">
+                  <div className="flex items-center justify-between mb-2">
+                    <span className={`font-bold ${TEAM_TEXT_CLASSES[standing.team]}`}>{Teams.NAMES[standing.team]}</span>
+                    <span className="text-xl font-bold text-gray-800">{standing.points} pts</span>
+                  </div>
+                  <ul className="text-sm text-gray-600 space-y-1">
+                    {standing.cars.map(car => (
+                      <li key={car.playerId} className="flex justify-between">
+                        <span>{car.playerName}</span>
+                        <span>{Teams.getPoints(gameState, car)} pts</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
 
         {/* Final Leaderboard */}
         <div className="mb-8">
@@ -125,13 +211,20 @@ export const GameOverScreen: React.FC<GameOverScreenProps> = ({
                       <span className={`font-semibold ${isCurrentPlayer ? 'text-blue-800' : 'text-gray-800'}`}>
                         {player.playerName}
                         {isCurrentPlayer && ' (You)'}
+                        {player.team && (
+                          <span className={`ml-2 text-xs font-medium ${TEAM_TEXT_CLASSES[player.team]}`}>
+                            {Teams.NAMES[player.team]}
+                          </span>
+                        )}
                       </span>
                       <div className="text-right text-sm text-gray-600">
-                        <div>Laps: {player.lap}</div>
-                        <div>
-                          Time: {Math.floor(player.totalTime / 60)}:
-                          {(player.totalTime % 60).toString().padStart(2, '0')}
-                        </div>
+                        <div>{mode.describeResult(gameState, player)}</div>
+                        {player.bestLap && (
+                          <div>Best lap: {formatTicks(player.bestLap.time)}</div>
+                        )}
+                        {player.finishGap !== null && player.finishGap > 0 && (
+                          <div>{formatGap(player.finishGap)}</div>
+                        )}
                       </div>
                     </div>
                     
@@ -155,14 +248,48 @@ export const GameOverScreen: React.FC<GameOverScreenProps> = ({
             Main Menu
           </button>
           
+          {hasRaceSlot && (
+            <button
+              onClick={onPlayAgain}
+              disabled={hasVoted}
+              className="flex-1 px-6 py-3 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors font-medium flex items-center justify-center disabled:opacity-60 disabled:cursor-not-allowed"
+            >
+              <RotateCcw className="w-5 h-5 mr-2" />
+              {hasVoted ? 'Waiting for others...' : 'Play Again'}
+            </button>
+          )}
+
+          {isHost && (
+            <button
+              onClick={onStartRematch}
+              className="flex-1 px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium flex items-center justify-center"
+            >
+              <Play className="w-5 h-5 mr-2" />
+              Rematch Now
+            </button>
+          )}
+        </div>
+
+        <div className="flex gap-4 mt-4">
           <button
-            onClick={onPlayAgain}
-            className="flex-1 px-6 py-3 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors font-medium flex items-center justify-center"
+            onClick={onWatchReplay}
+            className="flex-1 px-6 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors font-medium flex items-center justify-center"
           >
-            <RotateCcw className="w-5 h-5 mr-2" />
-            Play Again
+            <Film className="w-5 h-5 mr-2" />
+            Watch Replay
+          </button>
+          <button
+            onClick={onDownloadReplay}
+            className="flex-1 px-6 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors font-medium flex items-center justify-center"
+          >
+            <Download className="w-5 h-5 mr-2" />
+            Download Replay
           </button>
         </div>
+
+        <p className="text-center text-gray-500 text-sm mt-4">
+          Rematch votes: {room.rematchVotes.length}/{voterCount}
+        </p>
       </div>
     </div>
   );
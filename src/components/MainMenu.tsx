@@ -1,9 +1,23 @@
-import React, { useState } from 'react';
-import { Car, Users, Trophy, Volume2, VolumeX } from 'lucide-react';
+import React, { useEffect, useRef, useState } from 'react';
+import { Car, Users, Trophy, Volume2, VolumeX, Zap, RefreshCw, Film } from 'lucide-react';
+import { RaceReplay, RoomSummary, RoomVisibility } from '../types/game';
+import { ReplayPlayer } from '../utils/replayPlayer';
+
+const ROOM_LIST_REFRESH_MS = 5000;
+
+const ROOM_STATUS_LABELS: Record<RoomSummary['status'], string> = {
+  lobby: 'In Lobby',
+  racing: 'Racing',
+  finished: 'Finished'
+};
 
 interface MainMenuProps {
-  onJoinRoom: (roomId: string, playerName: string) => void;
-  onCreateRoom: (roomName: string, playerName: string) => void;
+  onJoinRoom: (roomId: string, playerName: string, asSpectator: boolean) => void;
+  onCreateRoom: (roomName: string, playerName: string, visibility: RoomVisibility) => void;
+  onQuickMatch: (playerName: string) => void;
+  rooms: RoomSummary[];
+  onRefreshRooms: () => void;
+  onOpenReplay: (replay: RaceReplay) => void;
   soundEnabled: boolean;
   onToggleSound: () => void;
 }
@@ -11,26 +25,61 @@ interface MainMenuProps {
 export const MainMenu: React.FC<MainMenuProps> = ({
   onJoinRoom,
   onCreateRoom,
+  onQuickMatch,
+  rooms,
+  onRefreshRooms,
+  onOpenReplay,
   soundEnabled,
   onToggleSound
 }) => {
   const [playerName, setPlayerName] = useState('');
   const [roomName, setRoomName] = useState('');
   const [roomId, setRoomId] = useState('');
+  const [isPublic, setIsPublic] = useState(true);
+  const [joinAsSpectator, setJoinAsSpectator] = useState(false);
   const [showJoinForm, setShowJoinForm] = useState(false);
   const [showCreateForm, setShowCreateForm] = useState(false);
+  const replayInputRef = useRef<HTMLInputElement>(null);
+
+  // Keep the room browser fresh while it is open
+  useEffect(() => {
+    if (!showJoinForm) return;
+
+    onRefreshRooms();
+    const interval = setInterval(onRefreshRooms, ROOM_LIST_REFRESH_MS);
+    return () => clearInterval(interval);
+  }, [showJoinForm, onRefreshRooms]);
 
   const handleCreateRoom = (e: React.FormEvent) => {
     e.preventDefault();
     if (playerName.trim() && roomName.trim()) {
-      onCreateRoom(roomName.trim(), playerName.trim());
+      onCreateRoom(roomName.trim(), playerName.trim(), isPublic ? 'public' : 'unlisted');
     }
   };
 
   const handleJoinRoom = (e: React.FormEvent) => {
     e.preventDefault();
     if (playerName.trim() && roomId.trim()) {
-      onJoinRoom(roomId.trim(), playerName.trim());
+      onJoinRoom(roomId.trim(), playerName.trim(), joinAsSpectator);
+    }
+  };
+
+  const handleReplayFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    let replay: RaceReplay | null = null;
+    try {
+      replay = ReplayPlayer.parse(JSON.parse(await file.text()));
+    } catch {
+      replay = null;
+    }
+
+    if (replay) {
+      onOpenReplay(replay);
+    } else {
+      alert('That file is not a replay this version of the game can play');
     }
   };
 
@@ -86,6 +135,15 @@ export const MainMenu: React.FC<MainMenuProps> = ({
               />
             </div>
 
+            <button
+              onClick={() => onQuickMatch(playerName.trim())}
+              disabled={!playerName.trim()}
+              className="w-full p-4 bg-gradient-to-r from-yellow-500 to-orange-500 text-white rounded-lg hover:from-yellow-600 hover:to-orange-600 transition-all duration-200 font-medium disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center"
+            >
+              <Zap className="w-5 h-5 mr-2" />
+              Quick Match
+            </button>
+
             <button
               onClick={() => setShowCreateForm(true)}
               disabled={!playerName.trim()}
@@ -101,9 +159,24 @@ export const MainMenu: React.FC<MainMenuProps> = ({
               className="w-full p-4 bg-gradient-to-r from-blue-500 to-blue-600 text-white rounded-lg hover:from-blue-600 hover:to-blue-700 transition-all duration-200 font-medium disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center"
             >
               <Car className="w-5 h-5 mr-2" />
-              Join Race Room
+              Browse Race Rooms
             </button>
 
+            <button
+              onClick={() => replayInputRef.current?.click()}
+              className="w-full p-3 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors font-medium flex items-center justify-center"
+            >
+              <Film className="w-5 h-5 mr-2" />
+              Open Replay File
+            </button>
+            <input
+              ref={replayInputRef}
+              type="file"
+              accept="application/json,.json"
+              onChange={handleReplayFile}
+              className="hidden"
+            />
+
             {/* Game Features */}
             <div className="mt-8 p-4 bg-gray-50 rounded-lg">
               <h3 className="font-semibold text-gray-800 mb-2">Game Features:</h3>
@@ -136,6 +209,16 @@ export const MainMenu: React.FC<MainMenuProps> = ({
               />
             </div>
 
+            <label className="flex items-center text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={isPublic}
+                onChange={(e) => setIsPublic(e.target.checked)}
+                className="mr-2"
+              />
+              List this room publicly (otherwise join by room ID only)
+            </label>
+
             <div className="flex gap-3">
               <button
                 type="button"
@@ -158,6 +241,67 @@ export const MainMenu: React.FC<MainMenuProps> = ({
         {/* Join Room Form */}
         {showJoinForm && (
           <form onSubmit={handleJoinRoom} className="space-y-4">
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <span className="block text-sm font-medium text-gray-700">
+                  Public Rooms
+                </span>
+                <button
+                  type="button"
+                  onClick={onRefreshRooms}
+                  className="p-1 rounded-full hover:bg-gray-100 transition-colors"
+                  title="Refresh"
+                >
+                  <RefreshCw className="w-4 h-4 text-gray-600" />
+                </button>
+              </div>
+
+              <div className="max-h-64 overflow-y-auto space-y-2">
+                {rooms.length === 0 && (
+                  <p className="text-sm text-gray-500 text-center py-4">
+                    No public rooms yet - create one or try Quick Match
+                  </p>
+                )}
+                {rooms.map(room => {
+                  const joinable = room.status === 'lobby' && room.playerCount < room.maxPlayers;
+                  return (
+                    <div
+                      key={room.id}
+                      className="p-3 border border-gray-200 rounded-lg flex items-center justify-between"
+                    >
+                      <div className="min-w-0">
+                        <p className="font-medium text-gray-800 truncate">{room.name}</p>
+                        <p className="text-xs text-gray-500">
+                          Host: {room.hostName} • {room.trackName} • {room.laps} laps
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          {room.playerCount}/{room.maxPlayers} players
+                          {room.spectatorCount > 0 && ` • ${room.spectatorCount} watching`} • {ROOM_STATUS_LABELS[room.status]}
+                        </p>
+                      </div>
+                      <div className="ml-3 flex gap-2">
+                        <button
+                          type="button"
+                          onClick={() => onJoinRoom(room.id, playerName.trim(), false)}
+                          disabled={!joinable}
+                          className="px-3 py-2 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          Join
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => onJoinRoom(room.id, playerName.trim(), true)}
+                          className="px-3 py-2 bg-gray-200 text-gray-700 text-sm rounded-lg hover:bg-gray-300 transition-colors"
+                        >
+                          Watch
+                        </button>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
                 Room ID
@@ -168,10 +312,19 @@ export const MainMenu: React.FC<MainMenuProps> = ({
                 onChange={(e) => setRoomId(e.target.value)}
                 placeholder="Enter room ID"
                 className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                autoFocus
               />
             </div>
 
+            <label className="flex items-center text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={joinAsSpectator}
+                onChange={(e) => setJoinAsSpectator(e.target.checked)}
+                className="mr-2"
+              />
+              Join as a spectator
+            </label>
+
             <div className="flex gap-3">
               <button
                 type="button"
@@ -0,0 +1,153 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Play, Pause, Rewind, ArrowLeft } from 'lucide-react';
+import { RaceReplay } from '../types/game';
+import { GameCanvas } from './GameCanvas';
+import { GameSimulation } from '../utils/gameSimulation';
+import { ReplayPlayer } from '../utils/replayPlayer';
+
+const SPEED_OPTIONS = [0.25, 0.5, 1, 2, 4];
+
+// The viewer is never one of the racers, so the canvas treats it as a spectator
+const VIEWER_ID = 'replay-viewer';
+
+interface ReplayViewerProps {
+  replay: RaceReplay;
+  onExit: () => void;
+}
+
+/**
+ * Format a number of ticks as m:ss
+ */
+function formatTicks(ticks: number): string {
+  const totalSeconds = Math.floor(ticks / GameSimulation.TICK_RATE);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
+
+const noInput = () => {};
+
+export const ReplayViewer: React.FC<ReplayViewerProps> = ({ replay, onExit }) => {
+  const player = useMemo(() => new ReplayPlayer(replay), [replay]);
+  const [tick, setTick] = useState(player.startTick);
+  const [playing, setPlaying] = useState(true);
+  const [speed, setSpeed] = useState(1);
+  const [cameraTargetId, setCameraTargetId] = useState<string | null>(null);
+  const tickRef = useRef(tick);
+
+  const gameState = useMemo(() => player.seek(tick), [player, tick]);
+
+  /**
+   * Advance the replay in real time, scaled by the playback speed
+   */
+  useEffect(() => {
+    if (!playing) return;
+
+    let lastTime = performance.now();
+    let frame = 0;
+    const animate = () => {
+      const now = performance.now();
+      tickRef.current = Math.min(
+        player.endTick,
+        tickRef.current + (now - lastTime) * speed * GameSimulation.TICK_RATE / 1000
+      );
+      lastTime = now;
+      setTick(Math.floor(tickRef.current));
+
+      if (tickRef.current >= player.endTick) {
+        setPlaying(false);
+        return;
+      }
+      frame = requestAnimationFrame(animate);
+    };
+    frame = requestAnimationFrame(animate);
+
+    return () => cancelAnimationFrame(frame);
+  }, [playing, speed, player]);
+
+  const seekTo = (value: number) => {
+    tickRef.current = value;
+    setTick(value);
+  };
+
+  const togglePlaying = () => {
+    if (!playing && tickRef.current >= player.endTick) {
+      seekTo(player.startTick);
+    }
+    setPlaying(!playing);
+  };
+
+  const selectClassName = 'p-2 border border-gray-600 rounded-lg bg-gray-800 text-white text-sm';
+
+  return (
+    <div className="min-h-screen bg-gray-900 flex flex-col items-center justify-center p-4">
+      <div className="w-full max-w-5xl flex items-center justify-between text-white mb-3">
+        <button
+          onClick={onExit}
+          className="px-4 py-2 bg-gray-700 rounded-lg hover:bg-gray-600 transition-colors flex items-center"
+        >
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          Back
+        </button>
+        <div className="text-right">
+          <p className="font-semibold">Replay: {replay.roomName}</p>
+          <p className="text-sm text-gray-400">{new Date(replay.recordedAt).toLocaleString()}</p>
+        </div>
+      </div>
+
+      <GameCanvas
+        gameState={gameState}
+        playerId={VIEWER_ID}
+        onInputChange={noInput}
+        interpolate={false}
+        cameraTargetId={cameraTargetId}
+      />
+
+      <div className="w-full max-w-5xl mt-3 flex flex-wrap items-center gap-3 text-white">
+        <button
+          onClick={() => seekTo(player.startTick)}
+          className="p-2 bg-gray-700 rounded-lg hover:bg-gray-600 transition-colors"
+          title="Restart"
+        >
+          <Rewind className="w-5 h-5" />
+        </button>
+        <button
+          onClick={togglePlaying}
+          className="p-2 bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors"
+          title={playing ? 'Pause' : 'Play'}
+        >
+          {playing ? <Pause className="w-5 h-5" /> : <Play className="w-5 h-5" />}
+        </button>
+
+        <input
+          type="range"
+          min={player.startTick}
+          max={player.endTick}
+          value={tick}
+          onChange={(e) => seekTo(Number(e.target.value))}
+          className="flex-1 min-w-[200px]"
+        />
+        <span className="text-sm tabular-nums">
+          {formatTicks(tick - player.startTick)} / {formatTicks(player.endTick - player.startTick)}
+        </span>
+
+        <select value={speed} onChange={(e) => setSpeed(Number(e.target.value))} className={selectClassName}>
+          {SPEED_OPTIONS.map(option => (
+            <option key={option} value={option}>{option}x</option>
+          ))}
+        </select>
+
+        <select
+          value={cameraTargetId ?? ''}
+          onChange={(e) => setCameraTargetId(e.target.value || null)}
+          className={selectClassName}
+        >
+          <option value="">Follow leader</option>
+          {replay.players.map(racer => (
+            <option key={racer.id} value={racer.id}>Follow {racer.name}</option>
+          ))}
+        </select>
+      </div>
+    </div>
+  );
+};
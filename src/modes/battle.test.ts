@@ -0,0 +1,73 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { GameState, TeamId } from '../types/game';
+import { GameSimulation } from '../utils/gameSimulation';
+import { RoomSettingsValidator } from '../utils/roomSettings';
+import { battle } from './battle';
+
+function startBattle(teams: boolean, blueTeam: TeamId = 'blue'): GameState {
+  const settings = RoomSettingsValidator.validate({ mode: 'battle', teams, friendlyFire: false });
+  const gameState = GameSimulation.createInitialGameState('room', settings);
+  GameSimulation.startRace(gameState, [
+    { id: 'red1', name: 'Red 1', team: 'red' },
+    { id: 'red2', name: 'Red 2', team: 'red' },
+    { id: 'blue1', name: 'Blue 1', team: blueTeam },
+    { id: 'blue2', name: 'Blue 2', team: blueTeam }
+  ], settings, 1);
+
+  while (gameState.phase === 'countdown') GameSimulation.step(gameState, {});
+  return gameState;
+}
+
+function wreck(gameState: GameState, ...playerIds: string[]): void {
+  gameState.players
+    .filter(car => playerIds.includes(car.playerId))
+    .forEach(car => {
+      car.health = 0;
+      GameSimulation.eliminateIfWrecked(gameState, car, []);
+    });
+}
+
+describe('battle', () => {
+  it('keeps going while both teams have cars left', () => {
+    const gameState = startBattle(true);
+    wreck(gameState, 'red2', 'blue2');
+
+    assert.equal(battle.isFinished(gameState), false);
+  });
+
+  it('ends once only one team has cars left', () => {
+    const gameState = startBattle(true);
+    wreck(gameState, 'blue1', 'blue2');
+
+    assert.equal(battle.isFinished(gameState), true);
+
+    GameSimulation.step(gameState, {});
+    assert.equal(gameState.phase, 'finished');
+    assert.ok(['red1', 'red2'].includes(gameState.winner as string));
+  });
+
+  it('plays to the last car when every car started on one team', () => {
+    const gameState = startBattle(true, 'red');
+
+    GameSimulation.step(gameState, {});
+    assert.equal(gameState.phase, 'racing');
+    assert.equal(battle.isFinished(gameState), false);
+
+    wreck(gameState, 'red2', 'blue1');
+    assert.equal(battle.isFinished(gameState), false);
+
+    wreck(gameState, 'blue2');
+    assert.equal(battle.isFinished(gameState), true);
+  });
+
+  it('needs a single survivor without teams', () => {
+    const gameState = startBattle(false);
+    wreck(gameState, 'blue1', 'blue2');
+
+    assert.equal(battle.isFinished(gameState), false);
+
+    wreck(gameState, 'red2');
+    assert.equal(battle.isFinished(gameState), true);
+  });
+});
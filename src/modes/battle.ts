@@ -0,0 +1,30 @@
+import { GameMode } from '../types/game';
+import { compareByElimination, compareSurvivorsFirst, countActive, eliminate, formatTicks, isLastStanding } from './shared';
+import { TICK_RATE } from '../utils/constants';
+
+// The survivor with the most health wins if nobody has been left standing by then
+const TIME_LIMIT_TICKS = 3 * 60 * TICK_RATE;
+
+/**
+ * Last car standing: laps don't matter, wrecked cars are out and the final
+ * survivor wins, or the healthiest one when time runs out. Survivors rank by
+ * health, the rest by how long they lasted.
+ */
+export const battle: GameMode = {
+  id: 'battle',
+  name: 'Battle Arena',
+  description: 'No laps: wreck everyone else. The last car standing wins, or the healthiest after three minutes.',
+  lapLimit: false,
+  combat: true,
+  onWrecked: eliminate,
+  onLapCompleted: () => {},
+  isFinished: gameState => isLastStanding(gameState) || gameState.raceTime >= TIME_LIMIT_TICKS,
+  compareStandings: (a, b) => compareSurvivorsFirst(a, b) || (a.isEliminated ? compareByElimination(a, b) : b.health - a.health),
+  getHudLines: gameState => [
+    `Cars left: ${countActive(gameState)}/${gameState.players.length}`,
+    `Time left: ${formatTicks(Math.max(0, TIME_LIMIT_TICKS - gameState.raceTime))}`
+  ],
+  describeResult: (_gameState, car) => car.isEliminated && car.eliminatedAt !== null
+    ? `Wrecked at ${formatTicks(car.eliminatedAt)}`
+    : `Survived with ${car.health} health`
+};
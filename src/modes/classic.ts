@@ -0,0 +1,21 @@
+import { GameMode } from '../types/game';
+import { compareByProgress, compareSurvivorsFirst, eliminate, isClassified, isLastStanding, describeFinish, lapLine } from './shared';
+
+/**
+ * The original rules: the first car to finish the laps wins and the rest race
+ * on for their places until the DNF timer runs out. Wrecked cars are out, and
+ * the race also ends when only one car is left running.
+ */
+export const classic: GameMode = {
+  id: 'classic',
+  name: 'Classic',
+  description: 'First to finish the laps wins. Wrecked cars are out, and the last car running wins early.',
+  lapLimit: true,
+  combat: true,
+  onWrecked: eliminate,
+  onLapCompleted: () => {},
+  isFinished: gameState => isClassified(gameState) || isLastStanding(gameState),
+  compareStandings: (a, b) => compareSurvivorsFirst(a, b) || compareByProgress(a, b),
+  getHudLines: (gameState, car) => [lapLine(gameState, car)],
+  describeResult: describeFinish
+};
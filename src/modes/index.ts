@@ -0,0 +1,28 @@
+import { GameMode, GameModeId } from '../types/game';
+import { classic } from './classic';
+import { race } from './race';
+import { battle } from './battle';
+import { knockout } from './knockout';
+import { timeTrial } from './timeTrial';
+
+export { formatDelta, formatFinish, formatGap, formatSeconds, formatTicks, getDnfTicksLeft } from './shared';
+
+export const DEFAULT_GAME_MODE: GameModeId = 'classic';
+
+/**
+ * Every game mode a room can pick, keyed by mode id
+ */
+export const GAME_MODES: Record<GameModeId, GameMode> = {
+  classic,
+  race,
+  battle,
+  knockout,
+  timeTrial
+};
+
+/**
+ * Gets a game mode by ID, falling back to the default rules
+ */
+export function getGameMode(modeId: GameModeId): GameMode {
+  return GAME_MODES[modeId] || GAME_MODES[DEFAULT_GAME_MODE];
+}
@@ -0,0 +1,38 @@
+import { Car, GameMode, GameState, SimulationEvent } from '../types/game';
+import { compareByElimination, compareByProgress, compareSurvivorsFirst, countActive, eliminate, isLastStanding } from './shared';
+
+const compareStandings = (a: Car, b: Car) =>
+  compareSurvivorsFirst(a, b) || compareByElimination(a, b) || compareByProgress(a, b);
+
+/**
+ * Each time the leader starts a new lap, the car in last place is knocked out
+ */
+function knockOutLast(gameState: GameState, car: Car, events: SimulationEvent[]): void {
+  const isLeader = gameState.players.every(other => other === car || other.lap < car.lap);
+  const running = gameState.players.filter(other => !other.isEliminated);
+  if (!isLeader || running.length <= 1) return;
+
+  const last = [...running].sort(compareStandings)[running.length - 1];
+  eliminate(gameState, last, events);
+}
+
+/**
+ * Lap knockout: there is no lap limit; the last car is knocked out every lap
+ * until one is left
+ */
+export const knockout: GameMode = {
+  id: 'knockout',
+  name: 'Lap Knockout',
+  description: 'Whoever is last when the leader completes a lap is knocked out, until one car is left.',
+  lapLimit: false,
+  combat: true,
+  onWrecked: eliminate,
+  onLapCompleted: knockOutLast,
+  isFinished: isLastStanding,
+  compareStandings,
+  getHudLines: (gameState, car) => [`Lap: ${car.lap}`, `Cars left: ${countActive(gameState)}/${gameState.players.length}`],
+  describeResult: (gameState, car) => {
+    if (car.isEliminated) return `Out after ${car.lap} ${car.lap === 1 ? 'lap' : 'laps'}`;
+    return countActive(gameState) > 1 ? 'Survived with the winning team' : 'Last car running';
+  }
+};
@@ -0,0 +1,21 @@
+import { GameMode } from '../types/game';
+import { compareByProgress, isClassified, describeFinish, lapLine, respawn } from './shared';
+
+/**
+ * A pure race: nobody is knocked out, wrecked cars respawn at the last gate
+ * they passed, and the first car to finish the laps wins. Everyone else races
+ * on for their places until the DNF timer runs out.
+ */
+export const race: GameMode = {
+  id: 'race',
+  name: 'Pure Race',
+  description: 'First to finish the laps wins. Wrecked cars respawn at the last checkpoint instead of going out.',
+  lapLimit: true,
+  combat: true,
+  onWrecked: respawn,
+  onLapCompleted: () => {},
+  isFinished: isClassified,
+  compareStandings: compareByProgress,
+  getHudLines: (gameState, car) => [lapLine(gameState, car)],
+  describeResult: describeFinish
+};
@@ -0,0 +1,158 @@
+import { Car, GameState, Position, SimulationEvent, TrackGate } from '../types/game';
+import { getTrack } from '../tracks';
+import { CarEffects } from '../utils/carEffects';
+import { GamePhysics } from '../utils/gamePhysics';
+import { RacePositions } from '../utils/racePositions';
+import { TICK_RATE } from '../utils/constants';
+
+// Respawned cars are shielded for this long so they are not wrecked again straight away
+export const RESPAWN_SHIELD_TICKS = 2 * TICK_RATE;
+
+/**
+ * Takes a car out of the race
+ */
+export function eliminate(gameState: GameState, car: Car, events: SimulationEvent[]): void {
+  car.isEliminated = true;
+  car.eliminatedAt = gameState.raceTime;
+  events.push({ type: 'eliminated', playerId: car.playerId });
+}
+
+/**
+ * Puts a wrecked car back on the last gate it passed with full health,
+ * facing the next gate and briefly shielded
+ */
+export function respawn(gameState: GameState, car: Car, events: SimulationEvent[]): void {
+  const track = getTrack(gameState.settings.trackId);
+  const previous = car.nextCheckpoint === 0 ? track.checkpoints.length : car.nextCheckpoint - 1;
+  const from = gateCenter(GamePhysics.getCheckpointGate(track, previous));
+  const to = gateCenter(GamePhysics.getCheckpointGate(track, car.nextCheckpoint));
+
+  car.position = from;
+  car.velocity = { x: 0, y: 0 };
+  car.rotation = Math.atan2(to.y - from.y, to.x - from.x);
+  car.health = car.maxHealth;
+  CarEffects.apply(car, 'shield', gameState.tick, RESPAWN_SHIELD_TICKS);
+  events.push({ type: 'respawn', playerId: car.playerId });
+}
+
+function gateCenter(gate: TrackGate): Position {
+  return { x: (gate.start.x + gate.end.x) / 2, y: (gate.start.y + gate.end.y) / 2 };
+}
+
+export function countActive(gameState: GameState): number {
+  return gameState.players.filter(car => !car.isEliminated).length;
+}
+
+/**
+ * Whether the round is decided: one car is left running or, in team races,
+ * every car still running is on the same team. A team race that started
+ * with everyone on one team is played to the last car instead.
+ */
+export function isLastStanding(gameState: GameState): boolean {
+  const active = gameState.players.filter(car => !car.isEliminated);
+  const teamsStarted = new Set(gameState.players.map(car => car.team)).size;
+  if (!gameState.settings.teams || teamsStarted <= 1) return active.length <= 1;
+
+  return new Set(active.map(car => car.team)).size <= 1;
+}
+
+/**
+ * Ticks left before cars that haven't finished are classified DNF, or null
+ * until the winner has finished
+ */
+export function getDnfTicksLeft(gameState: GameState): number | null {
+  const finishTicks = gameState.players
+    .map(car => car.finishTick)
+    .filter((tick): tick is number => tick !== null);
+  if (finishTicks.length === 0) return null;
+
+  const deadline = Math.min(...finishTicks) + gameState.settings.dnfTimeout * TICK_RATE;
+  return Math.max(0, deadline - gameState.raceTime);
+}
+
+/**
+ * Whether every car has either finished or been knocked out, or the DNF
+ * timer has run out on the rest
+ */
+export function isClassified(gameState: GameState): boolean {
+  return gameState.players.every(car => car.finishTick !== null || car.isEliminated) ||
+    getDnfTicksLeft(gameState) === 0;
+}
+
+/**
+ * Cars still in the race ahead of those knocked out
+ */
+export function compareSurvivorsFirst(a: Car, b: Car): number {
+  return Number(a.isEliminated) - Number(b.isEliminated);
+}
+
+/**
+ * Finished cars by finishing time, then everyone else by how far round they are
+ */
+export function compareByProgress(a: Car, b: Car): number {
+  if (a.finishTick !== null || b.finishTick !== null) {
+    if (a.finishTick === null) return 1;
+    if (b.finishTick === null) return -1;
+    return a.finishTick - b.finishTick;
+  }
+  return RacePositions.compare(a, b);
+}
+
+/**
+ * The later a car was knocked out, the better it placed
+ */
+export function compareByElimination(a: Car, b: Car): number {
+  return (b.eliminatedAt ?? Number.MAX_SAFE_INTEGER) - (a.eliminatedAt ?? Number.MAX_SAFE_INTEGER);
+}
+
+export function lapLine(gameState: GameState, car: Car): string {
+  return `Lap: ${car.lap}/${gameState.settings.laps}`;
+}
+
+/**
+ * A lap race result: the finishing time, or how far the car got
+ */
+export function describeFinish(_gameState: GameState, car: Car): string {
+  const laps = `${car.lap} ${car.lap === 1 ? 'lap' : 'laps'}`;
+  if (car.finishTick !== null) return `Finished in ${formatTicks(car.finishTick)}`;
+  return car.isEliminated ? `Wrecked after ${laps}` : `DNF after ${laps}`;
+}
+
+/**
+ * Formats race ticks as m:ss.s
+ */
+export function formatTicks(ticks: number): string {
+  const seconds = ticks / TICK_RATE;
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${(seconds % 60).toFixed(1).padStart(4, '0')}`;
+}
+
+/**
+ * Formats a difference in time as +s.ss or -s.ss
+ */
+export function formatDelta(ticks: number): string {
+  return `${ticks < 0 ? '-' : '+'}${(Math.abs(ticks) / TICK_RATE).toFixed(2)}s`;
+}
+
+/**
+ * Formats a short time, such as a sector, as s.ss
+ */
+export function formatSeconds(ticks: number): string {
+  return (ticks / TICK_RATE).toFixed(2);
+}
+
+/**
+ * Formats a gap to the leader as +s.s
+ */
+export function formatGap(ticks: number): string {
+  return `+${(ticks / TICK_RATE).toFixed(1)}s`;
+}
+
+/**
+ * Short result for the leaderboard: the winner's time, everyone else's gap
+ * to the winner, OUT for a wrecked car or the lap a car is still on
+ */
+export function formatFinish(car: Car): string {
+  if (car.finishTick !== null) return car.finishGap ? formatGap(car.finishGap) : formatTicks(car.finishTick);
+  return car.isEliminated ? 'OUT' : `Lap ${car.lap}`;
+}
@@ -0,0 +1,21 @@
+import { GameMode } from '../types/game';
+import { compareByProgress, describeFinish, formatTicks, isClassified, lapLine } from './shared';
+
+/**
+ * Time trial: no weapons, power-ups or contact between cars. Everyone drives
+ * the laps and the fastest time wins once every car has finished or the DNF
+ * timer has run out.
+ */
+export const timeTrial: GameMode = {
+  id: 'timeTrial',
+  name: 'Time Trial',
+  description: 'No weapons and no contact: everyone drives the laps and the fastest time wins.',
+  lapLimit: true,
+  combat: false,
+  onWrecked: () => {},
+  onLapCompleted: () => {},
+  isFinished: isClassified,
+  compareStandings: compareByProgress,
+  getHudLines: (gameState, car) => [lapLine(gameState, car), `Time: ${formatTicks(car.finishTick ?? gameState.raceTime)}`],
+  describeResult: describeFinish
+};
@@ -0,0 +1,133 @@
+import { Car, GameState, PlayerInput } from '../types/game';
+import { GamePhysics } from '../utils/gamePhysics';
+import { getTrack } from '../tracks';
+import { getGameMode } from '../modes';
+
+/**
+ * Predicts the local player's car by running the shared car physics on
+ * inputs before the server has confirmed them. When an authoritative state
+ * arrives the car is rewound to it and every unacknowledged input is replayed.
+ */
+export class ClientPrediction {
+  static readonly CORRECTION_DECAY = 0.85;
+  static readonly SNAP_DISTANCE = 100;
+
+  private playerId: string;
+  private nextSequence = 0;
+  private pendingInputs: PlayerInput[] = [];
+  private predictedCar: Car | null = null;
+  // Simulation tick the predicted car has been advanced to
+  private predictedTick = 0;
+  private correction = { x: 0, y: 0, rotation: 0 };
+
+  constructor(playerId: string) {
+    this.playerId = playerId;
+  }
+
+  /**
+   * Applies one tick of local input to the predicted car and returns the
+   * sequenced input to send to the server
+   */
+  applyLocalInput(keys: PlayerInput['keys'], gameState: GameState): PlayerInput {
+    const input: PlayerInput = {
+      playerId: this.playerId,
+      keys: { ...keys },
+      sequence: this.nextSequence++,
+      timestamp: Date.now()
+    };
+
+    this.pendingInputs.push(input);
+    if (this.predictedCar && this.canDrive(this.predictedCar, gameState)) {
+      this.predictStep(this.predictedCar, input.keys, gameState, ++this.predictedTick);
+    }
+
+    this.decayCorrection();
+    return input;
+  }
+
+  /**
+   * Rewinds to the server's state for the local car and replays inputs the
+   * server has not processed yet
+   */
+  reconcile(serverState: GameState): void {
+    const serverCar = serverState.players.find(p => p.playerId === this.playerId);
+    if (!serverCar) {
+      this.predictedCar = null;
+      this.pendingInputs = [];
+      return;
+    }
+
+    this.pendingInputs = this.pendingInputs.filter(input => input.sequence > serverCar.lastProcessedInput);
+
+    const car = structuredClone(serverCar);
+    this.predictedTick = serverState.tick;
+    if (this.canDrive(car, serverState)) {
+      this.pendingInputs.forEach(input => this.predictStep(car, input.keys, serverState, ++this.predictedTick));
+    }
+
+    // Keep the rendered car where it was and ease out the error instead of snapping
+    const previous = this.getRenderCar();
+    if (previous) {
+      const offsetX = previous.position.x - car.position.x;
+      const offsetY = previous.position.y - car.position.y;
+
+      if (Math.sqrt(offsetX * offsetX + offsetY * offsetY) < ClientPrediction.SNAP_DISTANCE) {
+        this.correction = {
+          x: offsetX,
+          y: offsetY,
+          rotation: previous.rotation - car.rotation
+        };
+      } else {
+        this.correction = { x: 0, y: 0, rotation: 0 };
+      }
+    }
+
+    this.predictedCar = car;
+  }
+
+  /**
+   * Gets the predicted car with the visual correction offset applied
+   */
+  getRenderCar(): Car | null {
+    if (!this.predictedCar) return null;
+
+    return {
+      ...this.predictedCar,
+      position: {
+        x: this.predictedCar.position.x + this.correction.x,
+        y: this.predictedCar.position.y + this.correction.y
+      },
+      rotation: this.predictedCar.rotation + this.correction.rotation
+    };
+  }
+
+  /**
+   * Moves the car for one input and bumps it off the other cars as last
+   * reported by the server, the same way the server resolves collisions,
+   * then expires the effects that have run out by the input's tick
+   */
+  private predictStep(car: Car, keys: PlayerInput['keys'], gameState: GameState, tick: number): void {
+    const track = getTrack(gameState.settings.trackId);
+    GamePhysics.updateCarPhysics(car, keys, track);
+
+    if (getGameMode(gameState.settings.mode).combat) {
+      gameState.players.forEach(other => {
+        if (other.playerId !== this.playerId && GamePhysics.isRacing(other)) {
+          GamePhysics.resolveCarCollision(car, structuredClone(other), track);
+        }
+      });
+    }
+
+    GamePhysics.updateEffects(car, tick);
+  }
+
+  private canDrive(car: Car, gameState: GameState): boolean {
+    return gameState.phase === 'racing' && GamePhysics.isRacing(car);
+  }
+
+  private decayCorrection(): void {
+    this.correction.x *= ClientPrediction.CORRECTION_DECAY;
+    this.correction.y *= ClientPrediction.CORRECTION_DECAY;
+    this.correction.rotation *= ClientPrediction.CORRECTION_DECAY;
+  }
+}
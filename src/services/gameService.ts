@@ -1,12 +1,15 @@
 import { v4 as uuidv4 } from 'uuid';
-import { GameState, GameRoom, Car, PowerUp, Bottle, PlayerInput } from '../types/game';
-import { GamePhysics } from '../utils/gamePhysics';
+import { GameRoom, PlayerInput, SimulationEvent } from '../types/game';
+import { GameSimulation } from '../utils/gameSimulation';
 import { SoundManager } from '../utils/soundManager';
+import { RoomSettingsValidator } from '../utils/roomSettings';
+import { DEFAULT_TRACK_ID } from '../tracks';
 
 export class GameService {
   private static instance: GameService;
   private rooms: Map<string, GameRoom> = new Map();
   private gameLoops: Map<string, NodeJS.Timeout> = new Map();
+  private latestInputs: Map<string, Record<string, PlayerInput['keys']>> = new Map();
   private soundManager: SoundManager;
 
   private constructor() {
@@ -24,15 +27,20 @@ export class GameService {
   /**
    * Creates a new game room
    */
-  createRoom(roomName: string, hostId: string): GameRoom {
+  createRoom(roomName: string, hostId: string, trackId: string = DEFAULT_TRACK_ID, hostName = 'Player 1'): GameRoom {
     const roomId = uuidv4();
+    const settings = RoomSettingsValidator.validate({ trackId });
     const room: GameRoom = {
       id: roomId,
       name: roomName,
-      players: [hostId],
-      maxPlayers: 6,
+      players: [{ id: hostId, name: hostName, connected: true, ready: false }],
+      spectators: [],
+      settings,
       host: hostId,
-      gameState: this.createInitialGameState(roomId)
+      visibility: 'public',
+      startDeadline: null,
+      rematchVotes: [],
+      gameState: GameSimulation.createInitialGameState(roomId, settings)
     };
 
     this.rooms.set(roomId, room);
@@ -42,14 +50,19 @@ export class GameService {
   /**
    * Joins an existing room
    */
-  joinRoom(roomId: string, playerId: string): GameRoom | null {
+  joinRoom(roomId: string, playerId: string, playerName?: string): GameRoom | null {
     const room = this.rooms.get(roomId);
-    if (!room || room.players.length >= room.maxPlayers) {
+    if (!room || room.players.length >= room.settings.maxPlayers) {
       return null;
     }
 
-    if (!room.players.includes(playerId)) {
-      room.players.push(playerId);
+    if (!room.players.some(player => player.id === playerId)) {
+      room.players.push({
+        id: playerId,
+        name: playerName ?? `Player ${room.players.length + 1}`,
+        connected: true,
+        ready: false
+      });
     }
 
     return room;
@@ -62,14 +75,14 @@ export class GameService {
     const room = this.rooms.get(roomId);
     if (!room) return;
 
-    room.players = room.players.filter(id => id !== playerId);
-    room.gameState.players = room.gameState.players.filter(p => p.playerId !== playerId);
+    room.players = room.players.filter(player => player.id !== playerId);
+    GameSimulation.removePlayer(room.gameState, playerId);
 
     if (room.players.length === 0) {
       this.stopGameLoop(roomId);
       this.rooms.delete(roomId);
     } else if (room.host === playerId && room.players.length > 0) {
-      room.host = room.players[0];
+      room.host = room.players[0].id;
     }
   }
 
@@ -87,115 +100,37 @@ export class GameService {
     const room = this.rooms.get(roomId);
     if (!room || room.players.length < 2) return false;
 
-    // Initialize cars for all players
-    room.gameState.players = room.players.map((playerId, index) => 
-      this.createCar(playerId, `Player ${index + 1}`, index)
-    );
-
-    // Generate power-ups
-    room.gameState.powerUps = this.generatePowerUps();
-    
-    room.gameState.gameStarted = true;
-    room.gameState.gameEnded = false;
-    room.gameState.raceTime = 0;
+    GameSimulation.startRace(room.gameState, room.players, room.settings);
 
+    this.latestInputs.set(roomId, {});
     this.startGameLoop(roomId);
     return true;
   }
 
   /**
-   * Processes player input
+   * Returns a finished room to the lobby with a fresh game state
    */
-  processPlayerInput(roomId: string, input: PlayerInput): void {
+  resetRoom(roomId: string): GameRoom | null {
     const room = this.rooms.get(roomId);
-    if (!room || !room.gameState.gameStarted) return;
-
-    const car = room.gameState.players.find(p => p.playerId === input.playerId);
-    if (!car || car.isEliminated) return;
-
-    // Handle bottle throwing
-    if (input.keys.space && car.bottles > 0) {
-      const bottle = GamePhysics.createBottle(car);
-      room.gameState.bottles.push(bottle);
-      car.bottles--;
-      this.soundManager.playSound('throw', 0.3);
-    }
-
-    // Update car physics
-    GamePhysics.updateCarPhysics(car, input.keys);
-  }
-
-  /**
-   * Creates initial game state
-   */
-  private createInitialGameState(roomId: string): GameState {
-    return {
-      id: roomId,
-      players: [],
-      bottles: [],
-      powerUps: [],
-      gameStarted: false,
-      gameEnded: false,
-      winner: null,
-      raceTime: 0,
-      maxLaps: 3
-    };
-  }
+    if (!room) return null;
 
-  /**
-   * Creates a car for a player
-   */
-  private createCar(playerId: string, playerName: string, index: number): Car {
-    const colors = ['#ff4444', '#44ff44', '#4444ff', '#ffff44', '#ff44ff', '#44ffff'];
-    const startPositions = [
-      { x: 100, y: 100 },
-      { x: 100, y: 140 },
-      { x: 100, y: 180 },
-      { x: 100, y: 220 },
-      { x: 100, y: 260 },
-      { x: 100, y: 300 }
-    ];
-
-    return {
-      id: uuidv4(),
-      playerId,
-      playerName,
-      position: startPositions[index] || { x: 100, y: 100 + index * 40 },
-      velocity: { x: 0, y: 0 },
-      rotation: 0,
-      health: 100,
-      maxHealth: 100,
-      speed: 0,
-      maxSpeed: GamePhysics.MAX_SPEED,
-      acceleration: GamePhysics.ACCELERATION,
-      bottles: 5,
-      lap: 0,
-      lapTime: 0,
-      totalTime: 0,
-      isEliminated: false,
-      powerUps: [],
-      color: colors[index % colors.length]
-    };
+    this.stopGameLoop(roomId);
+    room.players.forEach(player => {
+      player.ready = false;
+    });
+    room.rematchVotes = [];
+    room.gameState = GameSimulation.createInitialGameState(roomId, room.settings);
+    return room;
   }
 
   /**
-   * Generates power-ups on the track
+   * Records player input to be applied on the next tick
    */
-  private generatePowerUps(): PowerUp[] {
-    const powerUps: PowerUp[] = [];
-    const positions = GamePhysics.generatePowerUpPositions(8);
-    const types: PowerUp['type'][] = ['speed', 'shield', 'health', 'bottles'];
-
-    positions.forEach((position, index) => {
-      powerUps.push({
-        id: uuidv4(),
-        type: types[index % types.length],
-        position,
-        collected: false
-      });
-    });
+  processPlayerInput(roomId: string, input: PlayerInput): void {
+    const inputs = this.latestInputs.get(roomId);
+    if (!inputs) return;
 
-    return powerUps;
+    inputs[input.playerId] = { ...input.keys };
   }
 
   /**
@@ -204,7 +139,7 @@ export class GameService {
   private startGameLoop(roomId: string): void {
     const gameLoop = setInterval(() => {
       this.updateGame(roomId);
-    }, 1000 / 60); // 60 FPS
+    }, 1000 / GameSimulation.TICK_RATE);
 
     this.gameLoops.set(roomId, gameLoop);
   }
@@ -218,6 +153,7 @@ export class GameService {
       clearInterval(gameLoop);
       this.gameLoops.delete(roomId);
     }
+    this.latestInputs.delete(roomId);
   }
 
   /**
@@ -225,89 +161,55 @@ export class GameService {
    */
   private updateGame(roomId: string): void {
     const room = this.rooms.get(roomId);
-    if (!room || !room.gameState.gameStarted || room.gameState.gameEnded) return;
+    if (!room) return;
 
-    const gameState = room.gameState;
+    const inputs = this.latestInputs.get(roomId) || {};
+    this.playEventSounds(GameSimulation.step(room.gameState, inputs));
 
-    // Update race time
-    gameState.raceTime++;
+    // Stop game loop if game ended
+    if (room.gameState.phase === 'finished') {
+      this.stopGameLoop(roomId);
+    }
+  }
 
-    // Update bottles
-    gameState.bottles = gameState.bottles.filter(bottle => {
-      if (!bottle.active) return false;
-      
-      GamePhysics.updateBottlePhysics(bottle);
-      
-      // Check collisions with cars
-      for (const car of gameState.players) {
-        if (!car.isEliminated && GamePhysics.handleBottleCarCollision(bottle, car)) {
+  /**
+   * Plays the sound effect for each simulation event
+   */
+  private playEventSounds(events: SimulationEvent[]): void {
+    events.forEach(event => {
+      switch (event.type) {
+        case 'throw':
+          this.soundManager.playSound('throw', 0.3);
+          break;
+        case 'item':
+          if (event.item) this.soundManager.playSound(event.item, 0.4);
+          break;
+        case 'hit':
           this.soundManager.playSound('hit', 0.4);
-          
-          // Check if car is eliminated
-          if (car.health <= 0) {
-            car.isEliminated = true;
-            this.soundManager.playSound('explosion', 0.6);
-          }
           break;
-        }
-      }
-      
-      return bottle.active;
-    });
-
-    // Update power-ups
-    gameState.powerUps.forEach(powerUp => {
-      if (powerUp.collected) return;
-      
-      for (const car of gameState.players) {
-        if (!car.isEliminated && GamePhysics.handlePowerUpCollection(powerUp, car)) {
+        case 'explosion':
+          this.soundManager.playSound('explosion', 0.5);
+          break;
+        case 'crash':
+          this.soundManager.playSound('hit', 0.25);
+          break;
+        case 'eliminated':
+        case 'respawn':
+          this.soundManager.playSound('explosion', 0.6);
+          break;
+        case 'powerup':
           this.soundManager.playSound('powerup', 0.5);
           break;
-        }
-      }
-    });
-
-    // Update car lap tracking
-    gameState.players.forEach(car => {
-      if (car.isEliminated) return;
-      
-      car.totalTime = gameState.raceTime;
-      
-      // Simple lap detection (crossing start line)
-      if (car.position.x < 50 && car.position.y < 100 && car.velocity.x > 0) {
-        if (car.lap < gameState.maxLaps) {
-          car.lap++;
+        case 'lap':
           this.soundManager.playSound('lap', 0.7);
-          
-          if (car.lap >= gameState.maxLaps) {
-            gameState.gameEnded = true;
-            gameState.winner = car.playerId;
-          }
-        }
+          break;
+        case 'countdown':
+          this.soundManager.playSound('countdown', 0.6);
+          break;
+        case 'go':
+          this.soundManager.playSound('go', 0.7);
+          break;
       }
     });
-
-    // Check if all players are eliminated
-    const activePlayers = gameState.players.filter(p => !p.isEliminated);
-    if (activePlayers.length <= 1 && !gameState.gameEnded) {
-      gameState.gameEnded = true;
-      if (activePlayers.length === 1) {
-        gameState.winner = activePlayers[0].playerId;
-      }
-    }
-
-    // Respawn power-ups periodically
-    if (gameState.raceTime % 600 === 0) { // Every 10 seconds
-      const uncollectedCount = gameState.powerUps.filter(p => !p.collected).length;
-      if (uncollectedCount < 4) {
-        const newPowerUps = this.generatePowerUps();
-        gameState.powerUps.push(...newPowerUps.slice(0, 2));
-      }
-    }
-
-    // Stop game loop if game ended
-    if (gameState.gameEnded) {
-      this.stopGameLoop(roomId);
-    }
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,154 @@
+import { Bottle, Car, GameState } from '../types/game';
+import { GameSimulation } from '../utils/gameSimulation';
+
+interface Snapshot {
+  tick: number;
+  state: GameState;
+}
+
+export interface SnapshotBufferOptions {
+  interpolationDelayMs: number;
+  maxExtrapolationMs: number;
+  maxSnapshots: number;
+}
+
+const DEFAULT_OPTIONS: SnapshotBufferOptions = {
+  interpolationDelayMs: 100,
+  maxExtrapolationMs: 250,
+  maxSnapshots: 60
+};
+
+const TICK_MS = 1000 / GameSimulation.TICK_RATE;
+
+/**
+ * Keeps recent server snapshots tagged with their server tick and produces
+ * a smoothed state for rendering remote entities a fixed delay in the past.
+ * When no newer snapshot has arrived yet, entities are briefly extrapolated
+ * from their last known velocity.
+ */
+export class SnapshotBuffer {
+  private options: SnapshotBufferOptions;
+  private snapshots: Snapshot[] = [];
+  private clockOffset: number | null = null;
+
+  constructor(options: Partial<SnapshotBufferOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Adds a snapshot received at local time `receivedAt` (ms)
+   */
+  push(state: GameState, receivedAt: number): void {
+    const latest = this.snapshots[this.snapshots.length - 1];
+    if (latest && state.tick <= latest.tick) return;
+
+    this.snapshots.push({ tick: state.tick, state });
+    if (this.snapshots.length > this.options.maxSnapshots) {
+      this.snapshots.shift();
+    }
+
+    // Map server ticks onto the local clock. The least-delayed packet gives
+    // the best estimate; otherwise drift slowly to follow clock skew.
+    const offset = receivedAt - state.tick * TICK_MS;
+    if (this.clockOffset === null || offset < this.clockOffset) {
+      this.clockOffset = offset;
+    } else {
+      this.clockOffset += (offset - this.clockOffset) * 0.05;
+    }
+  }
+
+  /**
+   * Clears all buffered snapshots
+   */
+  clear(): void {
+    this.snapshots = [];
+    this.clockOffset = null;
+  }
+
+  /**
+   * Gets the state to render at local time `now` (ms)
+   */
+  sample(now: number): GameState | null {
+    if (this.snapshots.length === 0 || this.clockOffset === null) return null;
+
+    const renderTick = (now - this.options.interpolationDelayMs - this.clockOffset) / TICK_MS;
+
+    for (let i = this.snapshots.length - 1; i > 0; i--) {
+      const from = this.snapshots[i - 1];
+      const to = this.snapshots[i];
+      if (renderTick >= from.tick && renderTick <= to.tick) {
+        return this.interpolate(from.state, to.state, (renderTick - from.tick) / (to.tick - from.tick));
+      }
+    }
+
+    const latest = this.snapshots[this.snapshots.length - 1];
+    if (renderTick < this.snapshots[0].tick) {
+      return this.snapshots[0].state;
+    }
+
+    // Packets are late: extrapolate, but only for a short while
+    const maxTicks = this.options.maxExtrapolationMs / TICK_MS;
+    return this.extrapolate(latest.state, Math.min(renderTick - latest.tick, maxTicks));
+  }
+
+  private interpolate(from: GameState, to: GameState, alpha: number): GameState {
+    return {
+      ...to,
+      players: to.players.map(car => {
+        const previous = from.players.find(p => p.playerId === car.playerId);
+        return previous ? this.lerpCar(previous, car, alpha) : car;
+      }),
+      bottles: to.bottles.map(bottle => {
+        const previous = from.bottles.find(b => b.id === bottle.id);
+        return previous ? this.lerpBottle(previous, bottle, alpha) : bottle;
+      })
+    };
+  }
+
+  private extrapolate(state: GameState, ticks: number): GameState {
+    return {
+      ...state,
+      players: state.players.map(car => ({
+        ...car,
+        position: {
+          x: car.position.x + car.velocity.x * ticks,
+          y: car.position.y + car.velocity.y * ticks
+        }
+      })),
+      bottles: state.bottles.map(bottle => ({
+        ...bottle,
+        position: {
+          x: bottle.position.x + bottle.velocity.x * ticks,
+          y: bottle.position.y + bottle.velocity.y * ticks
+        }
+      }))
+    };
+  }
+
+  private lerpCar(from: Car, to: Car, alpha: number): Car {
+    let rotationDelta = to.rotation - from.rotation;
+    rotationDelta = Math.atan2(Math.sin(rotationDelta), Math.cos(rotationDelta));
+
+    return {
+      ...to,
+      position: {
+        x: from.position.x + (to.position.x - from.position.x) * alpha,
+        y: from.position.y + (to.position.y - from.position.y) * alpha
+      },
+      rotation: from.rotation + rotationDelta * alpha
+    };
+  }
+
+  private lerpBottle(from: Bottle, to: Bottle, alpha: number): Bottle {
+    return {
+      ...to,
+      position: {
+        x: from.position.x + (to.position.x - from.position.x) * alpha,
+        y: from.position.y + (to.position.y - from.position.y) * alpha
+      },
+      flightTicks: from.flightTicks !== undefined && to.flightTicks !== undefined
+        ? from.flightTicks + (to.flightTicks - from.flightTicks) * alpha
+        : to.flightTicks
+    };
+  }
+}
@@ -1,10 +1,17 @@
 import { io, Socket } from 'socket.io-client';
-import { GameState, GameRoom } from '../types/game';
+import { BotDifficulty, GameState, PlayerInput, RoomSettings, RoomVisibility, TeamId } from '../types/game';
+import { SnapshotDelta, SnapshotMessage } from '../utils/snapshotDelta';
+import { BinaryCodec } from '../utils/binaryCodec';
+
+const MAX_SNAPSHOT_HISTORY = 64;
+const SESSION_STORAGE_KEY = 'raceSessionToken';
 
 export class SocketService {
   private static instance: SocketService;
   private socket: Socket | null = null;
   private callbacks: Map<string, Function[]> = new Map();
+  private snapshotStates: Map<number, GameState> = new Map();
+  private currentRoomId: string | null = null;
 
   private constructor() {}
 
@@ -30,6 +37,12 @@ export class SocketService {
 
         this.socket.on('connect', () => {
           console.log('Connected to game server:', serverUrl);
+
+          // Reclaim our player after a dropped connection or a page reload
+          const sessionToken = this.getSessionToken();
+          if (sessionToken) {
+            this.socket?.emit('resumeSession', { sessionToken });
+          }
           resolve();
         });
 
@@ -65,18 +78,110 @@ export class SocketService {
   /**
    * Create a new room
    */
-  createRoom(roomName: string, playerName: string): void {
+  createRoom(roomName: string, playerName: string, visibility: RoomVisibility = 'public'): void {
     if (this.socket) {
-      this.socket.emit('createRoom', { roomName, playerName });
+      this.socket.emit('createRoom', { roomName, playerName, visibility });
     }
   }
 
   /**
    * Join an existing room
    */
-  joinRoom(roomId: string, playerName: string): void {
+  joinRoom(roomId: string, playerName: string, asSpectator = false): void {
+    if (this.socket) {
+      this.socket.emit('joinRoom', { roomId, playerName, asSpectator });
+    }
+  }
+
+  /**
+   * Add a bot driver to the grid (host only)
+   */
+  addBot(roomId: string, difficulty: BotDifficulty): void {
+    if (this.socket) {
+      this.socket.emit('addBot', { roomId, difficulty });
+    }
+  }
+
+  /**
+   * Remove a bot driver from the grid (host only)
+   */
+  removeBot(roomId: string, playerId: string): void {
+    if (this.socket) {
+      this.socket.emit('removeBot', { roomId, playerId });
+    }
+  }
+
+  /**
+   * Move a player to a team; players move themselves, the host can move anyone
+   */
+  setTeam(roomId: string, team: TeamId, playerId?: string): void {
+    if (this.socket) {
+      this.socket.emit('setTeam', { roomId, team, playerId });
+    }
+  }
+
+  /**
+   * Even out the team sizes (host only)
+   */
+  balanceTeams(roomId: string): void {
     if (this.socket) {
-      this.socket.emit('joinRoom', { roomId, playerName });
+      this.socket.emit('balanceTeams', { roomId });
+    }
+  }
+
+  /**
+   * Switch between racing and spectating while in the lobby
+   */
+  setSpectating(roomId: string, spectating: boolean): void {
+    if (this.socket) {
+      this.socket.emit('setSpectating', { roomId, spectating });
+    }
+  }
+
+  /**
+   * Request the list of public rooms
+   */
+  listRooms(): void {
+    if (this.socket) {
+      this.socket.emit('listRooms');
+    }
+  }
+
+  /**
+   * Join the fullest open public room, or create one
+   */
+  quickMatch(playerName: string): void {
+    if (this.socket) {
+      this.socket.emit('quickMatch', { playerName });
+    }
+  }
+
+  /**
+   * Leave the current room and give up its session
+   */
+  leaveRoom(): void {
+    if (this.socket) {
+      this.socket.emit('leaveRoom');
+    }
+    this.currentRoomId = null;
+    this.setSessionToken(null);
+  }
+
+  /**
+   * Change the room's race settings (host only)
+   */
+  updateSettings(roomId: string, settings: Partial<RoomSettings>): void {
+    if (this.socket) {
+      this.socket.emit('updateSettings', { roomId, settings });
+    }
+  }
+
+  /**
+   * Mark the local player as ready (or not) to race
+   */
+  setReady(roomId: string, ready: boolean): void {
+    if (this.socket) {
+      this.socket.emit('setReady', { roomId, ready });
     }
   }
 
@@ -89,10 +194,37 @@ export class SocketService {
     }
   }
 
+  /**
+   * Vote to race again once the race is over
+   */
+  voteRematch(roomId: string): void {
+    if (this.socket) {
+      this.socket.emit('voteRematch', { roomId });
+    }
+  }
+
+  /**
+   * Send everyone back to the lobby for a rematch (host only)
+   */
+  startRematch(roomId: string): void {
+    if (this.socket) {
+      this.socket.emit('startRematch', { roomId });
+    }
+  }
+
+  /**
+   * Ask for the recording of the room's finished race
+   */
+  requestReplay(roomId: string): void {
+    if (this.socket) {
+      this.socket.emit('requestReplay', { roomId });
+    }
+  }
+
   /**
    * Send player input to server
    */
-  sendPlayerInput(roomId: string, input: any): void {
+  sendPlayerInput(roomId: string, input: PlayerInput): void {
     if (this.socket) {
       this.socket.emit('playerInput', { roomId, input });
     }
@@ -129,13 +261,38 @@ export class SocketService {
 
     // Room events
     this.socket.on('roomCreated', (data) => {
+      this.currentRoomId = data.roomId;
+      this.setSessionToken(data.sessionToken);
       this.triggerCallbacks('roomCreated', data);
     });
 
     this.socket.on('roomJoined', (data) => {
+      this.currentRoomId = data.roomId;
+      this.setSessionToken(data.sessionToken);
       this.triggerCallbacks('roomJoined', data);
     });
 
+    // Session events
+    this.socket.on('sessionResumed', (data) => {
+      this.currentRoomId = data.roomId;
+      this.snapshotStates.clear();
+      this.triggerCallbacks('sessionResumed', data);
+    });
+
+    this.socket.on('sessionExpired', () => {
+      this.currentRoomId = null;
+      this.setSessionToken(null);
+      this.triggerCallbacks('sessionExpired', null);
+    });
+
+    this.socket.on('playerDisconnected', (data) => {
+      this.triggerCallbacks('playerDisconnected', data);
+    });
+
+    this.socket.on('playerReconnected', (data) => {
+      this.triggerCallbacks('playerReconnected', data);
+    });
+
     this.socket.on('playerJoined', (data) => {
       this.triggerCallbacks('playerJoined', data);
     });
@@ -144,20 +301,123 @@ export class SocketService {
       this.triggerCallbacks('playerLeft', data);
     });
 
+    this.socket.on('roomSettingsUpdated', (data) => {
+      this.triggerCallbacks('roomSettingsUpdated', data);
+    });
+
+    this.socket.on('playerReady', (data) => {
+      this.triggerCallbacks('playerReady', data);
+    });
+
+    this.socket.on('teamsUpdated', (data) => {
+      this.triggerCallbacks('teamsUpdated', data);
+    });
+
+    this.socket.on('startPending', (data) => {
+      this.triggerCallbacks('startPending', data);
+    });
+
+    this.socket.on('startCancelled', (data) => {
+      this.triggerCallbacks('startCancelled', data);
+    });
+
+    this.socket.on('rematchVote', (data) => {
+      this.triggerCallbacks('rematchVote', data);
+    });
+
+    this.socket.on('roomReset', (data) => {
+      this.snapshotStates.clear();
+      this.triggerCallbacks('roomReset', data);
+    });
+
+    this.socket.on('roomList', (rooms) => {
+      this.triggerCallbacks('roomList', rooms);
+    });
+
+    this.socket.on('playerRoleChanged', (data) => {
+      this.triggerCallbacks('playerRoleChanged', data);
+    });
+
+    this.socket.on('roomClosed', () => {
+      this.currentRoomId = null;
+      this.setSessionToken(null);
+      this.triggerCallbacks('roomClosed', null);
+    });
+
     this.socket.on('joinError', (error) => {
       this.triggerCallbacks('joinError', error);
     });
 
+    this.socket.on('replayData', (replay) => {
+      this.triggerCallbacks('replayData', replay);
+    });
+
+    this.socket.on('replayError', (error) => {
+      this.triggerCallbacks('replayError', error);
+    });
+
     // Game events
     this.socket.on('gameStarted', (gameState) => {
+      this.snapshotStates.clear();
       this.triggerCallbacks('gameStarted', gameState);
     });
 
-    this.socket.on('gameStateUpdate', (gameState) => {
-      this.triggerCallbacks('gameStateUpdate', gameState);
+    this.socket.on('snapshot', (data) => {
+      this.handleSnapshot(data);
     });
   }
 
+  /**
+   * Decode a (possibly binary, possibly delta) snapshot into a full game
+   * state, acknowledge it and hand it to `gameStateUpdate` listeners
+   */
+  private handleSnapshot(data: SnapshotMessage | ArrayBuffer | Uint8Array): void {
+    if (!this.socket) return;
+
+    const message = data instanceof ArrayBuffer || data instanceof Uint8Array
+      ? BinaryCodec.decode<SnapshotMessage>(data)
+      : data;
+
+    let gameState: GameState;
+    if (message.state) {
+      gameState = message.state;
+    } else {
+      const base = message.baseTick !== null ? this.snapshotStates.get(message.baseTick) : undefined;
+      if (!base || !message.delta) {
+        // We no longer have the baseline the server diffed against
+        this.socket.emit('snapshotResync', { roomId: this.currentRoomId });
+        return;
+      }
+      gameState = SnapshotDelta.apply(base, message.delta);
+    }
+
+    this.snapshotStates.set(message.tick, gameState);
+    if (this.snapshotStates.size > MAX_SNAPSHOT_HISTORY) {
+      this.snapshotStates.delete(Math.min(...this.snapshotStates.keys()));
+    }
+
+    this.socket.emit('snapshotAck', { roomId: gameState.id, tick: message.tick });
+    this.triggerCallbacks('gameStateUpdate', gameState);
+  }
+
+  /**
+   * Read the session token of the room we are in, if any
+   */
+  private getSessionToken(): string | null {
+    return sessionStorage.getItem(SESSION_STORAGE_KEY);
+  }
+
+  /**
+   * Store (or clear) the session token used to resume after reconnecting
+   */
+  private setSessionToken(token: string | null): void {
+    if (token) {
+      sessionStorage.setItem(SESSION_STORAGE_KEY, token);
+    } else {
+      sessionStorage.removeItem(SESSION_STORAGE_KEY);
+    }
+  }
+
   /**
    * Trigger registered callbacks for an event
    */
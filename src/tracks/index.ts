@@ -0,0 +1,20 @@
+import { Track } from '../types/game';
+import oval from './oval.json';
+import canyon from './canyon.json';
+
+export const DEFAULT_TRACK_ID = 'oval';
+
+/**
+ * All circuits bundled with the game, keyed by track id
+ */
+export const TRACKS: Record<string, Track> = {
+  [oval.id]: oval as Track,
+  [canyon.id]: canyon as Track
+};
+
+/**
+ * Gets a track by ID, falling back to the default circuit
+ */
+export function getTrack(trackId: string): Track {
+  return TRACKS[trackId] || TRACKS[DEFAULT_TRACK_ID];
+}
@@ -20,52 +20,263 @@ export interface Car {
   speed: number;
   maxSpeed: number;
   acceleration: number;
+  mass: number;
   bottles: number;
+  heldItem: ItemType | null;
+  // Fire keys held on the previous tick; weapons only fire as a key goes down
+  triggers: { space: boolean; item: boolean };
+  // Tick from which each weapon can be fired again
+  weaponReadyAt: Partial<Record<WeaponType, number>>;
   lap: number;
+  nextCheckpoint: number;
+  distanceToNextCheckpoint: number;
+  // Distance along the track's racing line into the current lap
+  trackProgress: number;
+  // Place in the race right now, 1 for the leader
+  racePosition: number;
+  // Ticks into the current lap, and the race tick it started on
   lapTime: number;
+  lapStartTick: number;
+  // Lap times at each checkpoint crossed so far on the current lap
+  currentSplits: number[];
+  completedLaps: LapRecord[];
+  // Fastest completed lap, used for the live delta
+  bestLap: LapRecord | null;
   totalTime: number;
+  // Race tick the car finished its laps on, if it has
+  finishTick: number | null;
+  // Place in the final classification, set as the car finishes or when the race ends
+  finishPosition: number | null;
+  // Ticks the car finished behind the winner; null if it did not finish
+  finishGap: number | null;
+  // Team the car races for in team races
+  team: TeamId | null;
   isEliminated: boolean;
-  powerUps: PowerUp[];
+  // Race tick the car was knocked out of the race on, if it was
+  eliminatedAt: number | null;
+  effects: ActiveEffect[];
   color: string;
+  lastProcessedInput: number;
+}
+
+export interface LapRecord {
+  // Ticks the lap took
+  time: number;
+  // Ticks from the start of the lap to each checkpoint, then to the line
+  splits: number[];
 }
 
+export type ProjectileKind = 'bottle' | 'homing' | 'lob';
+
 export interface Bottle {
   id: string;
+  kind: ProjectileKind;
   position: Position;
   velocity: Velocity;
   playerId: string;
   damage: number;
   active: boolean;
+  spawnTick: number;
+  // Homing bottles: the car being chased
+  targetId?: string | null;
+  // Lobbed bottles: ticks left in the air and the full flight time
+  flightTicks?: number;
+  totalFlightTicks?: number;
+}
+
+export type HazardKind = 'oil' | 'mine';
+
+export interface Hazard {
+  id: string;
+  kind: HazardKind;
+  position: Position;
+  playerId: string;
+  spawnTick: number;
 }
 
+export type ItemType = 'homing' | 'lob' | 'oil' | 'mine';
+
+export type WeaponType = 'bottle' | ItemType;
+
+export type PowerUpType = 'speed' | 'shield' | 'health' | 'bottles' | 'item';
+
 export interface PowerUp {
   id: string;
-  type: 'speed' | 'shield' | 'health' | 'bottles';
+  type: PowerUpType;
   position: Position;
   collected: boolean;
-  duration?: number;
-  effect?: number;
+  // Item boxes: what the box holds
+  item?: ItemType;
 }
 
+export type EffectType = 'speed' | 'shield' | 'oiled';
+
+export interface ActiveEffect {
+  type: EffectType;
+  // Simulation tick the effect started (or was last refreshed) on
+  startTick: number;
+  // Ticks the effect lasts from startTick
+  duration: number;
+}
+
+export type GamePhase = 'lobby' | 'countdown' | 'racing' | 'finished';
+
 export interface GameState {
   id: string;
   players: Car[];
   bottles: Bottle[];
+  hazards: Hazard[];
   powerUps: PowerUp[];
-  gameStarted: boolean;
-  gameEnded: boolean;
+  phase: GamePhase;
+  countdownTicks: number;
   winner: string | null;
+  tick: number;
   raceTime: number;
-  maxLaps: number;
+  settings: RoomSettings;
+  seed: number;
+  rngState: number;
+}
+
+export type PowerUpDensity = 'off' | 'low' | 'medium' | 'high';
+
+export type GameModeId = 'classic' | 'race' | 'battle' | 'knockout' | 'timeTrial';
+
+export interface RoomSettings {
+  mode: GameModeId;
+  trackId: string;
+  laps: number;
+  maxPlayers: number;
+  startingBottles: number;
+  bottleDamage: number;
+  powerUpDensity: PowerUpDensity;
+  enabledPowerUps: PowerUpType[];
+  bottleKnockback: boolean;
+  // Whether a car's own bottles and mines can hit it once they are clear of it
+  selfHit: boolean;
+  // Seconds the rest of the field gets to finish after the winner before being classified DNF
+  dnfTimeout: number;
+  // Whether players race in teams and score points for their team
+  teams: boolean;
+  // Whether bottles, hazards and rams can hurt teammates
+  friendlyFire: boolean;
+}
+
+export type TeamId = 'red' | 'blue';
+
+export interface TeamStanding {
+  team: TeamId;
+  points: number;
+  // The team's cars, best placed first
+  cars: Car[];
+}
+
+/**
+ * Rules a race is played under. The simulation asks the mode what happens to
+ * a wrecked car or after a lap, and whether the race is over.
+ */
+export interface GameMode {
+  id: GameModeId;
+  name: string;
+  description: string;
+  // Whether the race ends once a car has driven the room's number of laps
+  lapLimit: boolean;
+  // Whether weapons, power-ups and car-to-car contact are in play
+  combat: boolean;
+  onWrecked(gameState: GameState, car: Car, events: SimulationEvent[]): void;
+  onLapCompleted(gameState: GameState, car: Car, events: SimulationEvent[]): void;
+  isFinished(gameState: GameState): boolean;
+  // Orders cars for the leaderboard and results, best first
+  compareStandings(a: Car, b: Car): number;
+  // Mode-specific lines for the player's HUD
+  getHudLines(gameState: GameState, car: Car): string[];
+  // Short summary of a car's result for the results screen
+  describeResult(gameState: GameState, car: Car): string;
+}
+
+export interface TrackGate {
+  start: Position;
+  end: Position;
+}
+
+export interface SpawnSlot {
+  position: Position;
+  rotation: number;
+}
+
+export type SurfaceType = 'asphalt' | 'grass' | 'sand' | 'ice' | 'oil';
+
+export interface SurfaceZone {
+  type: SurfaceType;
+  polygon: Position[];
 }
 
+export type ObstacleKind = 'barrier' | 'tyres' | 'cone';
+
+export interface TrackObstacle {
+  kind: ObstacleKind;
+  polygon: Position[];
+}
+
+export interface Track {
+  id: string;
+  name: string;
+  width: number;
+  height: number;
+  outerBoundary: Position[];
+  innerBoundaries: Position[][];
+  spawnGrid: SpawnSlot[];
+  startLine: TrackGate;
+  checkpoints: TrackGate[];
+  // Closed loop round the track from the start line in the racing direction
+  racingLine: Position[];
+  powerUpPads: Position[];
+  surfaces: SurfaceZone[];
+  obstacles: TrackObstacle[];
+}
+
+export type BotDifficulty = 'easy' | 'medium' | 'hard';
+
+export interface RoomPlayer {
+  id: string;
+  name: string;
+  connected: boolean;
+  ready: boolean;
+  bot?: BotDifficulty;
+  team?: TeamId;
+  // Knocked out of the race in progress and watching the rest; keeps the slot for the rematch
+  spectating?: boolean;
+}
+
+export type RoomSpectator = Pick<RoomPlayer, 'id' | 'name' | 'connected'>;
+
+export type RoomVisibility = 'public' | 'unlisted';
+
 export interface GameRoom {
   id: string;
   name: string;
-  players: string[];
-  maxPlayers: number;
+  players: RoomPlayer[];
+  spectators: RoomSpectator[];
+  settings: RoomSettings;
   gameState: GameState;
   host: string;
+  visibility: RoomVisibility;
+  startDeadline: number | null;
+  rematchVotes: string[];
+}
+
+export type RoomStatus = 'lobby' | 'racing' | 'finished';
+
+export interface RoomSummary {
+  id: string;
+  name: string;
+  hostName: string;
+  playerCount: number;
+  spectatorCount: number;
+  maxPlayers: number;
+  status: RoomStatus;
+  trackId: string;
+  trackName: string;
+  laps: number;
 }
 
 export interface PlayerInput {
@@ -76,6 +287,52 @@ export interface PlayerInput {
     left: boolean;
     right: boolean;
     space: boolean;
+    item: boolean;
   };
+  sequence: number;
   timestamp: number;
-}
\ No newline at end of file
+}
+
+export interface SimulationEvent {
+  type: 'throw' | 'item' | 'hit' | 'explosion' | 'crash' | 'eliminated' | 'respawn' | 'powerup' | 'lap' | 'position' | 'countdown' | 'go';
+  playerId?: string;
+  item?: ItemType;
+  // Position events: the car's new place in the race
+  position?: number;
+}
+
+// A player taking a place on the starting grid
+export interface RaceEntrant {
+  id: string;
+  name: string;
+  team?: TeamId;
+}
+
+export interface ReplayInputFrame {
+  tick: number;
+  playerId: string;
+  keys: PlayerInput['keys'];
+}
+
+export interface ReplayDeparture {
+  tick: number;
+  playerId: string;
+}
+
+/**
+ * Everything needed to re-run a race: the starting conditions plus every
+ * change in a player's held keys, applied on the tick it was simulated.
+ */
+export interface RaceReplay {
+  version: number;
+  roomId: string;
+  roomName: string;
+  recordedAt: number;
+  seed: number;
+  settings: RoomSettings;
+  players: RaceEntrant[];
+  inputs: ReplayInputFrame[];
+  departures: ReplayDeparture[];
+  startTick: number;
+  endTick: number;
+}
@@ -0,0 +1,38 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { BinaryCodec } from './binaryCodec';
+import { GameSimulation } from './gameSimulation';
+import { RoomSettingsValidator } from './roomSettings';
+
+describe('BinaryCodec', () => {
+  it('round-trips every kind of JSON value', () => {
+    const value = {
+      nothing: null,
+      flags: [true, false],
+      integers: [0, 1, 127, 128, 300000, -1, -65536],
+      floats: [0.5, -3.25, 1e-7, 123456.789],
+      text: ['', 'bottle', 'bottle', 'émoji 🍾'],
+      nested: { list: [{ x: 1 }, { x: 2 }], empty: {} }
+    };
+
+    assert.deepEqual(BinaryCodec.decode(BinaryCodec.encode(value)), value);
+  });
+
+  it('round-trips a game state and is smaller than its JSON', () => {
+    const settings = RoomSettingsValidator.createDefault();
+    const gameState = GameSimulation.createInitialGameState('room', settings);
+    GameSimulation.startRace(gameState, [{ id: 'a', name: 'A' }, { id: 'b', name: 'B' }], settings, 5);
+
+    const encoded = BinaryCodec.encode(gameState);
+
+    assert.deepEqual(BinaryCodec.decode(encoded), gameState);
+    assert.ok(encoded.length < JSON.stringify(gameState).length);
+  });
+
+  it('decodes from an ArrayBuffer', () => {
+    const encoded = BinaryCodec.encode({ tick: 12 });
+    const buffer = encoded.buffer.slice(encoded.byteOffset, encoded.byteOffset + encoded.byteLength);
+
+    assert.deepEqual(BinaryCodec.decode(buffer), { tick: 12 });
+  });
+});
@@ -0,0 +1,232 @@
+/**
+ * Compact binary encoding for JSON-like values. Integers are written as
+ * varints and every string (object keys included) is sent once per message
+ * and referenced by index afterwards, which removes most of the overhead of
+ * repeating field names in JSON.
+ */
+export class BinaryCodec {
+  private static readonly NULL = 0;
+  private static readonly FALSE = 1;
+  private static readonly TRUE = 2;
+  private static readonly UINT = 3;
+  private static readonly NEGINT = 4;
+  private static readonly FLOAT = 5;
+  private static readonly STRING = 6;
+  private static readonly STRING_REF = 7;
+  private static readonly ARRAY = 8;
+  private static readonly OBJECT = 9;
+
+  /**
+   * Encodes a JSON-like value
+   */
+  static encode(value: unknown): Uint8Array {
+    const writer = new ByteWriter();
+    this.writeValue(writer, value, new Map());
+    return writer.finish();
+  }
+
+  /**
+   * Decodes a value produced by `encode`
+   */
+  static decode<T = unknown>(data: ArrayBuffer | Uint8Array): T {
+    const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+    const reader = new ByteReader(bytes);
+    return this.readValue(reader, []) as T;
+  }
+
+  private static writeValue(writer: ByteWriter, value: unknown, strings: Map<string, number>): void {
+    if (value === null || value === undefined) {
+      writer.byte(this.NULL);
+    } else if (typeof value === 'boolean') {
+      writer.byte(value ? this.TRUE : this.FALSE);
+    } else if (typeof value === 'number') {
+      if (Number.isSafeInteger(value)) {
+        writer.byte(value >= 0 ? this.UINT : this.NEGINT);
+        writer.varint(Math.abs(value));
+      } else {
+        writer.byte(this.FLOAT);
+        writer.float64(value);
+      }
+    } else if (typeof value === 'string') {
+      this.writeString(writer, value, strings);
+    } else if (Array.isArray(value)) {
+      writer.byte(this.ARRAY);
+      writer.varint(value.length);
+      value.forEach(item => this.writeValue(writer, item, strings));
+    } else if (typeof value === 'object') {
+      const entries = Object.entries(value as Record<string, unknown>).filter(([, v]) => v !== undefined);
+      writer.byte(this.OBJECT);
+      writer.varint(entries.length);
+      entries.forEach(([key, item]) => {
+        this.writeString(writer, key, strings);
+        this.writeValue(writer, item, strings);
+      });
+    } else {
+      throw new Error(`Cannot encode value of type ${typeof value}`);
+    }
+  }
+
+  private static writeString(writer: ByteWriter, value: string, strings: Map<string, number>): void {
+    const index = strings.get(value);
+    if (index !== undefined) {
+      writer.byte(this.STRING_REF);
+      writer.varint(index);
+      return;
+    }
+
+    strings.set(value, strings.size);
+    writer.byte(this.STRING);
+    writer.string(value);
+  }
+
+  private static readValue(reader: ByteReader, strings: string[]): unknown {
+    const tag = reader.byte();
+
+    switch (tag) {
+      case this.NULL:
+        return null;
+      case this.FALSE:
+        return false;
+      case this.TRUE:
+        return true;
+      case this.UINT:
+        return reader.varint();
+      case this.NEGINT:
+        return -reader.varint();
+      case this.FLOAT:
+        return reader.float64();
+      case this.STRING:
+      case this.STRING_REF:
+        return this.readString(reader, tag, strings);
+      case this.ARRAY: {
+        const length = reader.varint();
+        const items: unknown[] = [];
+        for (let i = 0; i < length; i++) {
+          items.push(this.readValue(reader, strings));
+        }
+        return items;
+      }
+      case this.OBJECT: {
+        const count = reader.varint();
+        const result: Record<string, unknown> = {};
+        for (let i = 0; i < count; i++) {
+          const key = this.readString(reader, reader.byte(), strings);
+          result[key] = this.readValue(reader, strings);
+        }
+        return result;
+      }
+      default:
+        throw new Error(`Unknown binary tag ${tag}`);
+    }
+  }
+
+  private static readString(reader: ByteReader, tag: number, strings: string[]): string {
+    if (tag === this.STRING_REF) {
+      return strings[reader.varint()];
+    }
+    if (tag !== this.STRING) {
+      throw new Error(`Expected string tag, got ${tag}`);
+    }
+
+    const value = reader.string();
+    strings.push(value);
+    return value;
+  }
+}
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+class ByteWriter {
+  private buffer = new Uint8Array(256);
+  private view = new DataView(this.buffer.buffer);
+  private length = 0;
+
+  byte(value: number): void {
+    this.ensure(1);
+    this.buffer[this.length++] = value;
+  }
+
+  varint(value: number): void {
+    while (value >= 0x80) {
+      this.byte((value % 0x80) | 0x80);
+      value = Math.floor(value / 0x80);
+    }
+    this.byte(value);
+  }
+
+  float64(value: number): void {
+    this.ensure(8);
+    this.view.setFloat64(this.length, value);
+    this.length += 8;
+  }
+
+  string(value: string): void {
+    const bytes = textEncoder.encode(value);
+    this.varint(bytes.length);
+    this.ensure(bytes.length);
+    this.buffer.set(bytes, this.length);
+    this.length += bytes.length;
+  }
+
+  finish(): Uint8Array {
+    return this.buffer.slice(0, this.length);
+  }
+
+  private ensure(extra: number): void {
+    if (this.length + extra <= this.buffer.length) return;
+
+    let size = this.buffer.length * 2;
+    while (size < this.length + extra) size *= 2;
+
+    const next = new Uint8Array(size);
+    next.set(this.buffer.subarray(0, this.length));
+    this.buffer = next;
+    this.view = new DataView(next.buffer);
+  }
+}
+
+class ByteReader {
+  private bytes: Uint8Array;
+  private view: DataView;
+  private offset = 0;
+
+  constructor(bytes: Uint8Array) {
+    this.bytes = bytes;
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  byte(): number {
+    if (this.offset >= this.bytes.length) {
+      throw new Error('Unexpected end of binary data');
+    }
+    return this.bytes[this.offset++];
+  }
+
+  varint(): number {
+    let result = 0;
+    let multiplier = 1;
+    let value: number;
+
+    do {
+      value = this.byte();
+      result += (value & 0x7f) * multiplier;
+      multiplier *= 0x80;
+    } while (value & 0x80);
+
+    return result;
+  }
+
+  float64(): number {
+    const value = this.view.getFloat64(this.offset);
+    this.offset += 8;
+    return value;
+  }
+
+  string(): string {
+    const length = this.varint();
+    const value = textDecoder.decode(this.bytes.subarray(this.offset, this.offset + length));
+    this.offset += length;
+    return value;
+  }
+}
@@ -0,0 +1,173 @@
+import { BotDifficulty, Car, GameState, PlayerInput, Position, Track } from '../types/game';
+import { GamePhysics } from './gamePhysics';
+import { Teams } from './teams';
+import { Weapons } from './weapons';
+import { getTrack } from '../tracks';
+
+interface BotProfile {
+  // Share of the car's top speed the bot drives at
+  throttle: number;
+  // How far ahead (px) the bot looks for walls
+  lookAhead: number;
+  // Power-ups within this distance and roughly ahead are picked up (0 = never)
+  powerUpRange: number;
+  // Opponents within this distance and angle are targeted with bottles
+  throwRange: number;
+  aimTolerance: number;
+  // Minimum ticks between two throws
+  throwInterval: number;
+}
+
+/**
+ * Computes the keys a bot holds each tick. Bots steer for the next checkpoint
+ * gate, choosing among a fan of headings the one that best combines wall
+ * clearance with pointing at the gate. The result is an ordinary input, so bots
+ * go through the same simulation and replay recording as human players.
+ */
+export class BotDriver {
+  static readonly DIFFICULTIES: BotDifficulty[] = ['easy', 'medium', 'hard'];
+  static readonly NAMES = ['Axel', 'Blaze', 'Cinder', 'Dynamo', 'Ember', 'Flash', 'Gear', 'Nitro'];
+  static readonly PROFILES: Record<BotDifficulty, BotProfile> = {
+    easy: { throttle: 0.6, lookAhead: 90, powerUpRange: 0, throwRange: 150, aimTolerance: 0.1, throwInterval: 120 },
+    medium: { throttle: 0.8, lookAhead: 110, powerUpRange: 120, throwRange: 250, aimTolerance: 0.15, throwInterval: 60 },
+    hard: { throttle: 1, lookAhead: 130, powerUpRange: 180, throwRange: 350, aimTolerance: 0.2, throwInterval: 30 }
+  };
+
+  private static readonly HEADING_OFFSETS = [-1.2, -0.9, -0.6, -0.4, -0.2, 0, 0.2, 0.4, 0.6, 0.9, 1.2];
+  private static readonly RAY_STEP = 10;
+  private static readonly STEER_DEADZONE = 0.05;
+
+  /**
+   * Works out the input for one bot car on the current tick
+   */
+  static computeInput(gameState: GameState, car: Car, difficulty: BotDifficulty): PlayerInput['keys'] {
+    const keys = { up: false, down: false, left: false, right: false, space: false, item: false };
+    if (gameState.phase !== 'racing' || !GamePhysics.isRacing(car)) return keys;
+
+    const profile = this.PROFILES[difficulty];
+    const track = getTrack(gameState.settings.trackId);
+    const target = this.chooseTarget(gameState, car, track, profile);
+    const desired = Math.atan2(target.y - car.position.y, target.x - car.position.x);
+
+    // Score a fan of headings: open road matters most, then facing the target
+    let bestHeading = car.rotation;
+    let bestScore = -Infinity;
+    let clearanceAhead = profile.lookAhead;
+    this.HEADING_OFFSETS.forEach(offset => {
+      const heading = car.rotation + offset;
+      const clearance = this.castRay(car.position, heading, profile.lookAhead, track);
+      if (offset === 0) clearanceAhead = clearance;
+
+      const score = (clearance / profile.lookAhead) * 2 - Math.abs(this.angleBetween(heading, desired)) / Math.PI;
+      if (score > bestScore) {
+        bestScore = score;
+        bestHeading = heading;
+      }
+    });
+
+    const steer = this.angleBetween(car.rotation, bestHeading);
+    keys.left = steer < -this.STEER_DEADZONE;
+    keys.right = steer > this.STEER_DEADZONE;
+
+    // Ease off for sharp turns and when a wall is close ahead
+    const speed = Math.sqrt(car.velocity.x ** 2 + car.velocity.y ** 2);
+    const targetSpeed = car.maxSpeed * profile.throttle * (clearanceAhead < profile.lookAhead / 2 ? 0.6 : 1);
+    keys.up = speed < targetSpeed;
+    keys.down = speed > targetSpeed + 1;
+
+    keys.space = this.shouldThrow(gameState, car, profile);
+    keys.item = this.shouldUseItem(gameState, car, profile);
+    return keys;
+  }
+
+  /**
+   * The middle of the next checkpoint gate, or a nearby power-up on the way
+   */
+  private static chooseTarget(gameState: GameState, car: Car, track: Track, profile: BotProfile): Position {
+    const gate = GamePhysics.getCheckpointGate(track, car.nextCheckpoint);
+    const gateCenter = {
+      x: (gate.start.x + gate.end.x) / 2,
+      y: (gate.start.y + gate.end.y) / 2
+    };
+
+    const powerUp = gameState.powerUps.find(p =>
+      !p.collected &&
+      this.distance(car.position, p.position) < profile.powerUpRange &&
+      Math.abs(this.angleBetween(car.rotation, this.angleTo(car.position, p.position))) < 0.5
+    );
+
+    return powerUp ? powerUp.position : gateCenter;
+  }
+
+  /**
+   * Throws at an opponent lined up in front, at most once per throw interval
+   */
+  private static shouldThrow(gameState: GameState, car: Car, profile: BotProfile): boolean {
+    if (car.bottles <= 0 || gameState.raceTime % profile.throwInterval !== 0) return false;
+
+    return this.hasOpponentWithin(gameState, car, car.rotation, profile.throwRange, profile.aimTolerance);
+  }
+
+  /**
+   * Fires a held item at an opponent ahead, or drops it in front of one behind
+   */
+  private static shouldUseItem(gameState: GameState, car: Car, profile: BotProfile): boolean {
+    if (!car.heldItem || gameState.raceTime % profile.throwInterval !== 0) return false;
+
+    switch (car.heldItem) {
+      case 'homing':
+        return Weapons.findHomingTarget(gameState, car) !== null;
+      case 'lob':
+        return this.hasOpponentWithin(gameState, car, car.rotation, profile.throwRange, profile.aimTolerance * 3);
+      case 'oil':
+      case 'mine':
+        return this.hasOpponentWithin(gameState, car, car.rotation + Math.PI, profile.throwRange / 2, 0.5);
+    }
+  }
+
+  /**
+   * Whether an opponent is within range and angle of a heading from the car
+   */
+  private static hasOpponentWithin(gameState: GameState, car: Car, heading: number, range: number, tolerance: number): boolean {
+    return gameState.players.some(other =>
+      other.playerId !== car.playerId &&
+      GamePhysics.isRacing(other) &&
+      !Teams.areTeammates(car, other) &&
+      this.distance(car.position, other.position) < range &&
+      Math.abs(this.angleBetween(heading, this.angleTo(car.position, other.position))) < tolerance
+    );
+  }
+
+  /**
+   * Distance along a heading before leaving the drivable surface
+   */
+  private static castRay(origin: Position, heading: number, maxDistance: number, track: Track): number {
+    const dx = Math.cos(heading);
+    const dy = Math.sin(heading);
+
+    for (let distance = this.RAY_STEP; distance <= maxDistance; distance += this.RAY_STEP) {
+      const point = { x: origin.x + dx * distance, y: origin.y + dy * distance };
+      if (!GamePhysics.isOnTrack(point, track)) return distance - this.RAY_STEP;
+    }
+
+    return maxDistance;
+  }
+
+  /**
+   * Signed smallest angle from `from` to `to`, in (-PI, PI]
+   */
+  private static angleBetween(from: number, to: number): number {
+    let diff = (to - from) % (Math.PI * 2);
+    if (diff > Math.PI) diff -= Math.PI * 2;
+    if (diff <= -Math.PI) diff += Math.PI * 2;
+    return diff;
+  }
+
+  private static angleTo(from: Position, to: Position): number {
+    return Math.atan2(to.y - from.y, to.x - from.x);
+  }
+
+  private static distance(a: Position, b: Position): number {
+    return Math.sqrt((a.x - b.x) ** 2 + (a.y - b.y) ** 2);
+  }
+}
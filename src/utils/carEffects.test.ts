@@ -0,0 +1,46 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { getTrack } from '../tracks';
+import { CarEffects } from './carEffects';
+import { GamePhysics } from './gamePhysics';
+import { GameSimulation } from './gameSimulation';
+import { RoomSettingsValidator } from './roomSettings';
+
+function createCar() {
+  const settings = RoomSettingsValidator.createDefault();
+  return GameSimulation.createCar('car', 'Car', 0, getTrack(settings.trackId), settings);
+}
+
+describe('CarEffects', () => {
+  it('expires an effect on the tick its duration runs out', () => {
+    const car = createCar();
+    CarEffects.apply(car, 'shield', 100, 20);
+
+    assert.equal(CarEffects.expire(car, 119), false);
+    assert.equal(CarEffects.has(car, 'shield'), true);
+    assert.equal(CarEffects.expire(car, 120), true);
+    assert.equal(CarEffects.has(car, 'shield'), false);
+  });
+
+  it('stacks speed boosts up to the limit, then restarts the one closest to ending', () => {
+    const car = createCar();
+    const { duration, maxStacks } = CarEffects.RULES.speed;
+
+    for (let i = 0; i < maxStacks; i++) CarEffects.apply(car, 'speed', i * 10);
+    CarEffects.apply(car, 'speed', 50);
+
+    assert.equal(CarEffects.getStacks(car, 'speed'), maxStacks);
+    assert.deepEqual(car.effects.map(effect => effect.startTick).sort((a, b) => a - b), [10, 50]);
+    assert.equal(CarEffects.getRemainingTicks(car.effects[0], 50), duration);
+  });
+
+  it('drops the top speed back once a boost expires', () => {
+    const car = createCar();
+    CarEffects.apply(car, 'speed', 0);
+    GamePhysics.updateMaxSpeed(car);
+    assert.equal(car.maxSpeed, GamePhysics.MAX_SPEED + GamePhysics.SPEED_BOOST);
+
+    GamePhysics.updateEffects(car, CarEffects.RULES.speed.duration);
+    assert.equal(car.maxSpeed, GamePhysics.MAX_SPEED);
+  });
+});
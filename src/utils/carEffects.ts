@@ -0,0 +1,69 @@
+import { ActiveEffect, Car, EffectType } from '../types/game';
+
+interface EffectRule {
+  // Ticks one pickup lasts
+  duration: number;
+  // Copies that can run at once; another pickup at the limit restarts the one closest to ending
+  maxStacks: number;
+}
+
+/**
+ * Timed effects on cars. Each effect is stamped with the simulation tick it
+ * started on and ends once its duration has elapsed, so effects expire on
+ * the same tick on the server, in client prediction and in replays.
+ */
+export class CarEffects {
+  static readonly RULES: Record<EffectType, EffectRule> = {
+    speed: { duration: 300, maxStacks: 2 },
+    shield: { duration: 480, maxStacks: 1 },
+    oiled: { duration: 45, maxStacks: 1 }
+  };
+
+  /**
+   * Starts an effect on a car, stacking or refreshing it per its rule. The
+   * duration can be overridden for effects granted by the rules rather than a pickup.
+   */
+  static apply(car: Car, type: EffectType, tick: number, duration = this.RULES[type].duration): void {
+    const rule = this.RULES[type];
+    const active = car.effects.filter(effect => effect.type === type);
+
+    if (active.length < rule.maxStacks) {
+      car.effects.push({ type, startTick: tick, duration });
+      return;
+    }
+
+    const soonest = active.reduce((a, b) => this.getRemainingTicks(b, tick) < this.getRemainingTicks(a, tick) ? b : a);
+    soonest.startTick = tick;
+    soonest.duration = duration;
+  }
+
+  /**
+   * Removes effects that have run out by the given tick. Returns whether any did.
+   */
+  static expire(car: Car, tick: number): boolean {
+    const count = car.effects.length;
+    car.effects = car.effects.filter(effect => this.getRemainingTicks(effect, tick) > 0);
+    return car.effects.length !== count;
+  }
+
+  /**
+   * Number of copies of an effect currently on a car
+   */
+  static getStacks(car: Car, type: EffectType): number {
+    return car.effects.filter(effect => effect.type === type).length;
+  }
+
+  /**
+   * Whether a car currently has an effect
+   */
+  static has(car: Car, type: EffectType): boolean {
+    return car.effects.some(effect => effect.type === type);
+  }
+
+  /**
+   * Ticks left before an effect ends
+   */
+  static getRemainingTicks(effect: ActiveEffect, tick: number): number {
+    return effect.startTick + effect.duration - tick;
+  }
+}
@@ -0,0 +1,2 @@
+// Simulation ticks per second, shared by the simulation and the game modes
+export const TICK_RATE = 60;
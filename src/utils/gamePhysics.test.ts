@@ -0,0 +1,37 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { getTrack } from '../tracks';
+import { CarEffects } from './carEffects';
+import { GamePhysics } from './gamePhysics';
+import { GameSimulation } from './gameSimulation';
+import { RoomSettingsValidator } from './roomSettings';
+
+const settings = RoomSettingsValidator.createDefault();
+const track = getTrack(settings.trackId);
+
+function createCars() {
+  const thrower = GameSimulation.createCar('thrower', 'Thrower', 0, track, settings);
+  const target = GameSimulation.createCar('target', 'Target', 1, track, settings);
+  const bottle = GamePhysics.createBottle(thrower, 20, 0);
+  bottle.position = { ...target.position };
+  return { target, bottle };
+}
+
+describe('GamePhysics.handleBottleCarCollision', () => {
+  it('breaks the bottle and damages the car it hits', () => {
+    const { target, bottle } = createCars();
+
+    assert.equal(GamePhysics.handleBottleCarCollision(bottle, target), true);
+    assert.equal(bottle.active, false);
+    assert.equal(target.health, 80);
+  });
+
+  it('breaks the bottle on a shield without counting a hit', () => {
+    const { target, bottle } = createCars();
+    CarEffects.apply(target, 'shield', 0);
+
+    assert.equal(GamePhysics.handleBottleCarCollision(bottle, target), false);
+    assert.equal(bottle.active, false);
+    assert.equal(target.health, 100);
+  });
+});
@@ -1,4 +1,14 @@
-import { Car, Position, Velocity, Bottle, PowerUp } from '../types/game';
+import { Car, Position, Bottle, ObstacleKind, PowerUp, PlayerInput, ProjectileKind, SurfaceType, Track, TrackGate } from '../types/game';
+import { CarEffects } from './carEffects';
+
+interface SurfaceProperties {
+  // Share of velocity kept each tick
+  friction: number;
+  // Share of engine and brake force that reaches the road
+  grip: number;
+  // Share of the car's top speed reachable on this surface
+  maxSpeed: number;
+}
 
 export class GamePhysics {
   static readonly FRICTION = 0.95;
@@ -7,24 +17,55 @@ export class GamePhysics {
   static readonly BRAKE_FORCE = 0.8;
   static readonly MAX_SPEED = 8;
   static readonly BOTTLE_SPEED = 12;
-  static readonly TRACK_WIDTH = 800;
-  static readonly TRACK_HEIGHT = 600;
+  static readonly CAR_RADIUS = 20;
+  static readonly WALL_BOUNCE = 0.5;
+  static readonly BOTTLE_KNOCKBACK = 3;
+  // Top speed added by each active speed boost
+  static readonly SPEED_BOOST = 2;
+  static readonly CAR_MASS = 1;
+  static readonly CAR_BODY_RADIUS = 15;
+  static readonly CAR_RESTITUTION = 0.4;
+  static readonly RAM_DAMAGE_MIN_SPEED = 3;
+  static readonly RAM_DAMAGE_PER_SPEED = 4;
+  // Cars over a surface's speed limit lose this share of speed per tick
+  static readonly SURFACE_SLOWDOWN = 0.9;
+
+  static readonly SURFACES: Record<SurfaceType, SurfaceProperties> = {
+    asphalt: { friction: this.FRICTION, grip: 1, maxSpeed: 1 },
+    grass: { friction: 0.93, grip: 0.8, maxSpeed: 0.6 },
+    sand: { friction: 0.88, grip: 0.6, maxSpeed: 0.45 },
+    ice: { friction: 0.99, grip: 0.3, maxSpeed: 1 },
+    oil: { friction: 0.985, grip: 0.1, maxSpeed: 1 }
+  };
+
+  // How much of a car's speed into an obstacle bounces back; the rest slides along it
+  static readonly OBSTACLE_BOUNCE: Record<ObstacleKind, number> = {
+    barrier: 0.3,
+    tyres: 0.9,
+    cone: 0.1
+  };
 
   /**
-   * Updates car physics based on player input
+   * Updates car physics based on player input and the surface under the car.
+   * A car that has run through an oil slick handles as if it were on oil.
    */
-  static updateCarPhysics(car: Car, input: any): void {
+  static updateCarPhysics(car: Car, input: PlayerInput['keys'], track: Track): void {
+    const surface = CarEffects.has(car, 'oiled')
+      ? this.SURFACES.oil
+      : this.SURFACES[this.getSurfaceAt(car.position, track)];
+
     // Apply acceleration/braking
     if (input.up) {
-      const forwardX = Math.cos(car.rotation) * this.ACCELERATION;
-      const forwardY = Math.sin(car.rotation) * this.ACCELERATION;
+      const forwardX = Math.cos(car.rotation) * this.ACCELERATION * surface.grip;
+      const forwardY = Math.sin(car.rotation) * this.ACCELERATION * surface.grip;
       car.velocity.x += forwardX;
       car.velocity.y += forwardY;
     }
     
     if (input.down) {
-      car.velocity.x *= this.BRAKE_FORCE;
-      car.velocity.y *= this.BRAKE_FORCE;
+      const brake = 1 - (1 - this.BRAKE_FORCE) * surface.grip;
+      car.velocity.x *= brake;
+      car.velocity.y *= brake;
     }
 
     // Apply turning (only when moving)
@@ -39,33 +80,43 @@ export class GamePhysics {
     }
 
     // Apply friction
-    car.velocity.x *= this.FRICTION;
-    car.velocity.y *= this.FRICTION;
+    car.velocity.x *= surface.friction;
+    car.velocity.y *= surface.friction;
 
-    // Limit max speed
+    // Limit max speed; slow surfaces bleed speed off over a few ticks
     const currentSpeed = Math.sqrt(car.velocity.x ** 2 + car.velocity.y ** 2);
+    const surfaceLimit = car.maxSpeed * surface.maxSpeed;
+    let speedLimit = currentSpeed;
     if (currentSpeed > car.maxSpeed) {
-      car.velocity.x = (car.velocity.x / currentSpeed) * car.maxSpeed;
-      car.velocity.y = (car.velocity.y / currentSpeed) * car.maxSpeed;
+      speedLimit = car.maxSpeed;
+    } else if (currentSpeed > surfaceLimit) {
+      speedLimit = Math.max(surfaceLimit, currentSpeed * this.SURFACE_SLOWDOWN);
+    }
+    if (speedLimit < currentSpeed) {
+      car.velocity.x = (car.velocity.x / currentSpeed) * speedLimit;
+      car.velocity.y = (car.velocity.y / currentSpeed) * speedLimit;
     }
 
     // Update position
     car.position.x += car.velocity.x;
     car.position.y += car.velocity.y;
 
-    // Keep car within bounds
-    this.keepInBounds(car);
+    // Keep car on the track surface
+    this.keepOnTrack(car, track);
   }
 
   /**
-   * Creates a bottle projectile
+   * Creates a bottle projectile. Its id comes from the kind, tick and thrower;
+   * cooldowns allow one of each kind per car per tick, so ids are unique and
+   * the same on the server, the client and in replays.
    */
-  static createBottle(car: Car): Bottle {
+  static createBottle(car: Car, damage: number, spawnTick: number, kind: ProjectileKind = 'bottle'): Bottle {
     const bottleSpeed = this.BOTTLE_SPEED;
     const angle = car.rotation;
     
     return {
-      id: `bottle_${Date.now()}_${Math.random()}`,
+      id: `${kind}_${spawnTick}_${car.playerId}`,
+      kind,
       position: {
         x: car.position.x + Math.cos(angle) * 40,
         y: car.position.y + Math.sin(angle) * 40
@@ -75,21 +126,21 @@ export class GamePhysics {
         y: Math.sin(angle) * bottleSpeed + car.velocity.y
       },
       playerId: car.playerId,
-      damage: 20,
-      active: true
+      damage,
+      active: true,
+      spawnTick
     };
   }
 
   /**
    * Updates bottle physics
    */
-  static updateBottlePhysics(bottle: Bottle): void {
+  static updateBottlePhysics(bottle: Bottle, track: Track): void {
     bottle.position.x += bottle.velocity.x;
     bottle.position.y += bottle.velocity.y;
 
-    // Deactivate bottles that go out of bounds
-    if (bottle.position.x < 0 || bottle.position.x > this.TRACK_WIDTH ||
-        bottle.position.y < 0 || bottle.position.y > this.TRACK_HEIGHT) {
+    // Deactivate bottles that hit a wall
+    if (!this.isOnTrack(bottle.position, track)) {
       bottle.active = false;
     }
   }
@@ -105,35 +156,117 @@ export class GamePhysics {
   }
 
   /**
-   * Handles collision between bottle and car
+   * Handles collision between bottle and car. The bottle breaks on any car it
+   * touches; returns whether the car took damage, which a shield prevents.
    */
-  static handleBottleCarCollision(bottle: Bottle, car: Car): boolean {
-    if (bottle.playerId === car.playerId || !bottle.active) return false;
+  static handleBottleCarCollision(bottle: Bottle, car: Car, knockback = true): boolean {
+    if (!bottle.active) return false;
     
-    if (this.checkCollision(bottle.position, car.position, 5, 20)) {
-      car.health -= bottle.damage;
+    if (this.checkCollision(bottle.position, car.position, 5, this.CAR_RADIUS)) {
       bottle.active = false;
-      
-      // Add knockback effect
-      const knockbackForce = 3;
-      const angle = Math.atan2(car.position.y - bottle.position.y, car.position.x - bottle.position.x);
+      return this.applyHit(car, bottle.damage, bottle.position, knockback ? this.BOTTLE_KNOCKBACK : 0);
+    }
+    return false;
+  }
+
+  /**
+   * Damages a car and pushes it away from where the hit came from. A shield
+   * absorbs the whole hit. Returns whether the car took damage.
+   */
+  static applyHit(car: Car, damage: number, source: Position, knockbackForce: number): boolean {
+    if (this.hasShield(car)) return false;
+
+    car.health -= damage;
+    if (knockbackForce > 0) {
+      const angle = Math.atan2(car.position.y - source.y, car.position.x - source.x);
       car.velocity.x += Math.cos(angle) * knockbackForce;
       car.velocity.y += Math.sin(angle) * knockbackForce;
-      
-      return true;
     }
-    return false;
+
+    return true;
+  }
+
+  /**
+   * Separates two overlapping cars and exchanges an impulse between their
+   * circular bodies, weighted by mass. Returns the speed at which they closed
+   * along the contact normal, or 0 when they are not touching.
+   */
+  static resolveCarCollision(a: Car, b: Car, track: Track): number {
+    let dx = b.position.x - a.position.x;
+    let dy = b.position.y - a.position.y;
+    let distance = Math.sqrt(dx * dx + dy * dy);
+    const minDistance = this.CAR_BODY_RADIUS * 2;
+    if (distance >= minDistance) return 0;
+
+    // Cars exactly on top of each other are pushed apart along a's heading
+    if (distance === 0) {
+      dx = Math.cos(a.rotation);
+      dy = Math.sin(a.rotation);
+      distance = 1;
+    }
+    const normalX = dx / distance;
+    const normalY = dy / distance;
+    const inverseMassA = 1 / a.mass;
+    const inverseMassB = 1 / b.mass;
+    const inverseMassSum = inverseMassA + inverseMassB;
+
+    // Move the lighter car further so they no longer overlap
+    const overlap = minDistance - distance;
+    a.position.x -= normalX * overlap * (inverseMassA / inverseMassSum);
+    a.position.y -= normalY * overlap * (inverseMassA / inverseMassSum);
+    b.position.x += normalX * overlap * (inverseMassB / inverseMassSum);
+    b.position.y += normalY * overlap * (inverseMassB / inverseMassSum);
+    this.keepOnTrack(a, track);
+    this.keepOnTrack(b, track);
+
+    const closingSpeed = (a.velocity.x - b.velocity.x) * normalX + (a.velocity.y - b.velocity.y) * normalY;
+    if (closingSpeed <= 0) return 0;
+
+    const impulse = (1 + this.CAR_RESTITUTION) * closingSpeed / inverseMassSum;
+    a.velocity.x -= normalX * impulse * inverseMassA;
+    a.velocity.y -= normalY * impulse * inverseMassA;
+    b.velocity.x += normalX * impulse * inverseMassB;
+    b.velocity.y += normalY * impulse * inverseMassB;
+
+    return closingSpeed;
+  }
+
+  /**
+   * Damage a car takes from ramming (or being rammed by) another car. Slow
+   * bumps are harmless, shields block it, and a heavier rammer hits harder.
+   */
+  static getRamDamage(impactSpeed: number, car: Car, other: Car): number {
+    if (impactSpeed <= this.RAM_DAMAGE_MIN_SPEED || this.hasShield(car)) return 0;
+
+    const massFactor = (2 * other.mass) / (car.mass + other.mass);
+    return Math.round((impactSpeed - this.RAM_DAMAGE_MIN_SPEED) * this.RAM_DAMAGE_PER_SPEED * massFactor);
+  }
+
+  /**
+   * Whether a car is still out racing. Finished cars are parked as ghosts:
+   * they can't be hit, bumped or pick anything up while the rest finish.
+   */
+  static isRacing(car: Car): boolean {
+    return !car.isEliminated && car.finishTick === null;
+  }
+
+  /**
+   * Whether a car currently has an active shield
+   */
+  static hasShield(car: Car): boolean {
+    return CarEffects.has(car, 'shield');
   }
 
   /**
    * Handles power-up collection
    */
-  static handlePowerUpCollection(powerUp: PowerUp, car: Car): boolean {
-    if (powerUp.collected) return false;
+  static handlePowerUpCollection(powerUp: PowerUp, car: Car, tick: number): boolean {
+    // Item boxes are left for others while the car's item slot is full
+    if (powerUp.collected || (powerUp.type === 'item' && car.heldItem)) return false;
     
-    if (this.checkCollision(powerUp.position, car.position, 15, 20)) {
+    if (this.checkCollision(powerUp.position, car.position, 15, this.CAR_RADIUS)) {
       powerUp.collected = true;
-      this.applyPowerUp(powerUp, car);
+      this.applyPowerUp(powerUp, car, tick);
       return true;
     }
     return false;
@@ -142,20 +275,14 @@ export class GamePhysics {
   /**
    * Applies power-up effects to car
    */
-  static applyPowerUp(powerUp: PowerUp, car: Car): void {
+  static applyPowerUp(powerUp: PowerUp, car: Car, tick: number): void {
     switch (powerUp.type) {
       case 'speed':
-        car.maxSpeed = Math.min(car.maxSpeed + 2, 12);
-        setTimeout(() => {
-          car.maxSpeed = this.MAX_SPEED;
-        }, 5000);
+        CarEffects.apply(car, 'speed', tick);
+        this.updateMaxSpeed(car);
         break;
       case 'shield':
-        // Add shield power-up to car
-        car.powerUps.push({
-          ...powerUp,
-          duration: 8000
-        });
+        CarEffects.apply(car, 'shield', tick);
         break;
       case 'health':
         car.health = Math.min(car.health + 30, car.maxHealth);
@@ -163,47 +290,188 @@ export class GamePhysics {
       case 'bottles':
         car.bottles += 3;
         break;
+      case 'item':
+        car.heldItem = powerUp.item ?? null;
+        break;
     }
   }
 
   /**
-   * Keeps car within track bounds
+   * Ends the car's effects that have run out by this tick
    */
-  private static keepInBounds(car: Car): void {
-    const margin = 20;
-    
-    if (car.position.x < margin) {
-      car.position.x = margin;
-      car.velocity.x = Math.abs(car.velocity.x) * 0.5;
+  static updateEffects(car: Car, tick: number): void {
+    if (CarEffects.expire(car, tick)) {
+      this.updateMaxSpeed(car);
     }
-    if (car.position.x > this.TRACK_WIDTH - margin) {
-      car.position.x = this.TRACK_WIDTH - margin;
-      car.velocity.x = -Math.abs(car.velocity.x) * 0.5;
+  }
+
+  /**
+   * Derives the car's top speed from the speed boosts it has running
+   */
+  static updateMaxSpeed(car: Car): void {
+    car.maxSpeed = this.MAX_SPEED + CarEffects.getStacks(car, 'speed') * this.SPEED_BOOST;
+  }
+
+  /**
+   * Checks whether a point lies on the drivable surface of a track
+   */
+  static isOnTrack(point: Position, track: Track): boolean {
+    return this.isPointInPolygon(point, track.outerBoundary) &&
+      !track.innerBoundaries.some(boundary => this.isPointInPolygon(point, boundary)) &&
+      !track.obstacles.some(obstacle => this.isPointInPolygon(point, obstacle.polygon));
+  }
+
+  /**
+   * Gets the surface at a point; later zones in the track's list win
+   */
+  static getSurfaceAt(point: Position, track: Track): SurfaceType {
+    for (let i = track.surfaces.length - 1; i >= 0; i--) {
+      if (this.isPointInPolygon(point, track.surfaces[i].polygon)) {
+        return track.surfaces[i].type;
+      }
     }
-    if (car.position.y < margin) {
-      car.position.y = margin;
-      car.velocity.y = Math.abs(car.velocity.y) * 0.5;
+    return 'asphalt';
+  }
+
+  /**
+   * Checks whether a point lies inside a polygon (even-odd rule)
+   */
+  static isPointInPolygon(point: Position, polygon: Position[]): boolean {
+    let inside = false;
+
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+      const a = polygon[i];
+      const b = polygon[j];
+      if ((a.y > point.y) !== (b.y > point.y) &&
+          point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+        inside = !inside;
+      }
     }
-    if (car.position.y > this.TRACK_HEIGHT - margin) {
-      car.position.y = this.TRACK_HEIGHT - margin;
-      car.velocity.y = -Math.abs(car.velocity.y) * 0.5;
+
+    return inside;
+  }
+
+  /**
+   * Finds the closest point to `point` on the segment between `a` and `b`
+   */
+  static closestPointOnSegment(point: Position, a: Position, b: Position): Position {
+    const abX = b.x - a.x;
+    const abY = b.y - a.y;
+    const lengthSq = abX * abX + abY * abY;
+    if (lengthSq === 0) return { x: a.x, y: a.y };
+
+    const t = Math.max(0, Math.min(1, ((point.x - a.x) * abX + (point.y - a.y) * abY) / lengthSq));
+    return { x: a.x + abX * t, y: a.y + abY * t };
+  }
+
+  /**
+   * Finds the closest point to `point` on the edges of a polygon
+   */
+  static closestPointOnPolygon(point: Position, polygon: Position[]): Position {
+    let closest = polygon[0];
+    let closestDistSq = Infinity;
+
+    for (let i = 0; i < polygon.length; i++) {
+      const candidate = this.closestPointOnSegment(point, polygon[i], polygon[(i + 1) % polygon.length]);
+      const distSq = (candidate.x - point.x) ** 2 + (candidate.y - point.y) ** 2;
+      if (distSq < closestDistSq) {
+        closest = candidate;
+        closestDistSq = distSq;
+      }
     }
+
+    return closest;
   }
 
   /**
-   * Generates random power-up positions
+   * Gets the gate a car must cross at a checkpoint index; the start/finish
+   * line follows the last checkpoint and completes the lap
    */
-  static generatePowerUpPositions(count: number): Position[] {
-    const positions: Position[] = [];
-    const margin = 50;
-    
-    for (let i = 0; i < count; i++) {
-      positions.push({
-        x: margin + Math.random() * (this.TRACK_WIDTH - 2 * margin),
-        y: margin + Math.random() * (this.TRACK_HEIGHT - 2 * margin)
-      });
+  static getCheckpointGate(track: Track, index: number): TrackGate {
+    return index < track.checkpoints.length ? track.checkpoints[index] : track.startLine;
+  }
+
+  /**
+   * Advances a car through the track's ordered checkpoints.
+   * Returns true when the car completes a lap.
+   */
+  static updateCheckpointProgress(car: Car, track: Track): boolean {
+    const gate = this.getCheckpointGate(track, car.nextCheckpoint);
+    const closest = this.closestPointOnSegment(car.position, gate.start, gate.end);
+    const distance = Math.sqrt((car.position.x - closest.x) ** 2 + (car.position.y - closest.y) ** 2);
+
+    car.distanceToNextCheckpoint = distance;
+    if (distance >= this.CAR_RADIUS) return false;
+
+    if (car.nextCheckpoint < track.checkpoints.length) {
+      car.nextCheckpoint++;
+      return false;
     }
-    
-    return positions;
+
+    car.nextCheckpoint = 0;
+    return true;
+  }
+
+  /**
+   * Keeps car between the outer and inner track boundaries and out of obstacles
+   */
+  private static keepOnTrack(car: Car, track: Track): void {
+    this.resolveBoundary(car, track.outerBoundary, true);
+    track.innerBoundaries.forEach(boundary => this.resolveBoundary(car, boundary, false));
+    track.obstacles.forEach(obstacle =>
+      this.resolveBoundary(car, obstacle.polygon, false, this.OBSTACLE_BOUNCE[obstacle.kind])
+    );
+  }
+
+  /**
+   * Pushes a car back off a boundary wall and bounces its velocity; the
+   * velocity along the wall is kept so cars slide along it
+   */
+  private static resolveBoundary(car: Car, polygon: Position[], keepInside: boolean, bounce = this.WALL_BOUNCE): void {
+    const closest = this.closestPointOnPolygon(car.position, polygon);
+    const dx = car.position.x - closest.x;
+    const dy = car.position.y - closest.y;
+    const distance = Math.sqrt(dx * dx + dy * dy);
+    const onLegalSide = this.isPointInPolygon(car.position, polygon) === keepInside;
+
+    if (onLegalSide && distance >= this.CAR_RADIUS) return;
+
+    // Wall normal pointing towards the drivable side
+    let normalX: number;
+    let normalY: number;
+    if (distance > 0) {
+      const sign = onLegalSide ? 1 : -1;
+      normalX = (dx / distance) * sign;
+      normalY = (dy / distance) * sign;
+    } else {
+      normalX = -Math.cos(car.rotation);
+      normalY = -Math.sin(car.rotation);
+    }
+
+    car.position.x = closest.x + normalX * this.CAR_RADIUS;
+    car.position.y = closest.y + normalY * this.CAR_RADIUS;
+
+    const normalVelocity = car.velocity.x * normalX + car.velocity.y * normalY;
+    if (normalVelocity < 0) {
+      car.velocity.x -= (1 + bounce) * normalVelocity * normalX;
+      car.velocity.y -= (1 + bounce) * normalVelocity * normalY;
+    }
+  }
+
+  /**
+   * Picks free power-up positions from the track's power-up pads
+   */
+  static generatePowerUpPositions(track: Track, count: number, occupied: Position[] = [], random: () => number = Math.random): Position[] {
+    const pads = track.powerUpPads.filter(pad =>
+      !occupied.some(position => position.x === pad.x && position.y === pad.y)
+    );
+
+    // Shuffle so each race uses a different pad selection
+    for (let i = pads.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [pads[i], pads[j]] = [pads[j], pads[i]];
+    }
+
+    return pads.slice(0, count).map(pad => ({ x: pad.x, y: pad.y }));
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,65 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { BotDifficulty, GameState, PlayerInput } from '../types/game';
+import { BotDriver } from './botDriver';
+import { GameSimulation } from './gameSimulation';
+import { RoomSettingsValidator } from './roomSettings';
+
+const DRIVERS: BotDifficulty[] = ['hard', 'medium', 'easy', 'hard'];
+
+function startRace(seed: number): GameState {
+  const settings = RoomSettingsValidator.createDefault();
+  const gameState = GameSimulation.createInitialGameState('room', settings);
+  GameSimulation.startRace(gameState, DRIVERS.map((_, index) => ({ id: `car${index}`, name: `Car ${index}` })), settings, seed);
+  return gameState;
+}
+
+function driveBots(gameState: GameState, ticks: number): void {
+  for (let i = 0; i < ticks && gameState.phase !== 'finished'; i++) {
+    const inputs: Record<string, PlayerInput['keys']> = {};
+    gameState.players.forEach((car, index) => {
+      inputs[car.playerId] = BotDriver.computeInput(gameState, car, DRIVERS[index]);
+    });
+    GameSimulation.step(gameState, inputs);
+  }
+}
+
+// Car and power-up ids are random uuids and are not part of what is simulated
+function serialize(gameState: GameState): string {
+  return JSON.stringify(gameState, (key, value) => key === 'id' ? undefined : value);
+}
+
+describe('GameSimulation.step', () => {
+  it('holds the cars on the grid until the countdown ends', () => {
+    const gameState = startRace(7);
+    const grid = gameState.players.map(car => ({ ...car.position }));
+    const throttle = Object.fromEntries(gameState.players.map(car => [car.playerId, { ...GameSimulation.NEUTRAL_INPUT, up: true }]));
+
+    for (let i = 0; i < GameSimulation.COUNTDOWN_TICKS - 1; i++) {
+      GameSimulation.step(gameState, throttle);
+    }
+    assert.equal(gameState.phase, 'countdown');
+    assert.deepEqual(gameState.players.map(car => car.position), grid);
+
+    GameSimulation.step(gameState, throttle);
+    assert.equal(gameState.phase, 'racing');
+  });
+
+  it('plays out the same race from the same seed and inputs', () => {
+    const first = startRace(42);
+    const second = startRace(42);
+
+    driveBots(first, 1500);
+    driveBots(second, 1500);
+
+    assert.ok(first.players.some(car => car.lap > 0));
+    assert.equal(serialize(first), serialize(second));
+  });
+
+  it('places power-ups from the seed', () => {
+    const positions = (gameState: GameState) => gameState.powerUps.map(powerUp => [powerUp.type, powerUp.position]);
+
+    assert.deepEqual(positions(startRace(1)), positions(startRace(1)));
+    assert.notDeepEqual(positions(startRace(1)), positions(startRace(2)));
+  });
+});
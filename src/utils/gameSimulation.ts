@@ -0,0 +1,475 @@
+import { v4 as uuidv4 } from 'uuid';
+import { GameState, Bottle, Car, PowerUp, PowerUpType, PlayerInput, RaceEntrant, RoomSettings, SimulationEvent, TeamId, Track } from '../types/game';
+import { CarEffects } from './carEffects';
+import { GamePhysics } from './gamePhysics';
+import { RoomSettingsValidator } from './roomSettings';
+import { LapTiming } from './lapTiming';
+import { RacePositions } from './racePositions';
+import { SeededRandom } from './seededRandom';
+import { TICK_RATE } from './constants';
+import { Teams } from './teams';
+import { Weapons } from './weapons';
+import { getTrack } from '../tracks';
+import { getGameMode } from '../modes';
+
+/**
+ * The authoritative race simulation shared by the Node server and the client.
+ * Everything here is a pure function of the game state and player input: no
+ * timers, audio or browser APIs. Side effects such as sounds are reported back
+ * as `SimulationEvent`s for the caller to act on.
+ */
+export class GameSimulation {
+  static readonly TICK_RATE = TICK_RATE;
+  static readonly COUNTDOWN_TICKS = 3 * TICK_RATE;
+  static readonly POWER_UP_RESPAWN_TICKS = 600;
+  static readonly POWER_UP_RESPAWN_BATCH = 2;
+  static readonly CAR_COLORS = ['#ff4444', '#44ff44', '#4444ff', '#ffff44', '#ff44ff', '#44ffff'];
+  static readonly NEUTRAL_INPUT: Readonly<PlayerInput['keys']> = {
+    up: false,
+    down: false,
+    left: false,
+    right: false,
+    space: false,
+    item: false
+  };
+
+  /**
+   * Creates initial game state
+   */
+  static createInitialGameState(roomId: string, settings: RoomSettings): GameState {
+    return {
+      id: roomId,
+      players: [],
+      bottles: [],
+      hazards: [],
+      powerUps: [],
+      phase: 'lobby',
+      countdownTicks: 0,
+      winner: null,
+      tick: 0,
+      raceTime: 0,
+      settings: RoomSettingsValidator.clone(settings),
+      seed: 0,
+      rngState: 0
+    };
+  }
+
+  /**
+   * Draws the next number from the race's seeded generator
+   */
+  static random(gameState: GameState): number {
+    const { value, state } = SeededRandom.next(gameState.rngState);
+    gameState.rngState = state;
+    return value;
+  }
+
+  /**
+   * Creates a car for a player on the given grid slot
+   */
+  static createCar(playerId: string, playerName: string, index: number, track: Track, settings: RoomSettings): Car {
+    const slot = track.spawnGrid[index % track.spawnGrid.length];
+
+    return {
+      id: uuidv4(),
+      playerId,
+      playerName,
+      position: { x: slot.position.x, y: slot.position.y },
+      velocity: { x: 0, y: 0 },
+      rotation: slot.rotation,
+      health: 100,
+      maxHealth: 100,
+      speed: 0,
+      maxSpeed: GamePhysics.MAX_SPEED,
+      acceleration: GamePhysics.ACCELERATION,
+      mass: GamePhysics.CAR_MASS,
+      bottles: settings.startingBottles,
+      heldItem: null,
+      triggers: { space: false, item: false },
+      weaponReadyAt: {},
+      lap: 0,
+      nextCheckpoint: 0,
+      distanceToNextCheckpoint: 0,
+      trackProgress: 0,
+      racePosition: index + 1,
+      lapTime: 0,
+      lapStartTick: 0,
+      currentSplits: [],
+      completedLaps: [],
+      bestLap: null,
+      totalTime: 0,
+      finishTick: null,
+      finishPosition: null,
+      finishGap: null,
+      team: null,
+      isEliminated: false,
+      eliminatedAt: null,
+      effects: [],
+      color: this.CAR_COLORS[index % this.CAR_COLORS.length],
+      lastProcessedInput: -1
+    };
+  }
+
+  /**
+   * Generates power-ups of the enabled types on free pads of the track
+   */
+  static generatePowerUps(gameState: GameState, track: Track, count: number, types: PowerUpType[], occupied: PowerUp[] = []): PowerUp[] {
+    if (types.length === 0) return [];
+
+    const positions = GamePhysics.generatePowerUpPositions(
+      track,
+      count,
+      occupied.map(p => p.position),
+      () => this.random(gameState)
+    );
+
+    return positions.map((position, index) => {
+      const powerUp: PowerUp = {
+        id: uuidv4(),
+        type: types[index % types.length],
+        position,
+        collected: false
+      };
+      // Item boxes get their contents when they spawn, so a race replays identically
+      if (powerUp.type === 'item') {
+        powerUp.item = Weapons.ITEMS[Math.floor(this.random(gameState) * Weapons.ITEMS.length)];
+      }
+      return powerUp;
+    });
+  }
+
+  /**
+   * Puts every player on the grid and starts the countdown. The room's
+   * settings are copied into the state so they stay fixed for the whole race,
+   * and the seed makes the race reproducible from its inputs.
+   */
+  static startRace(
+    gameState: GameState,
+    players: RaceEntrant[],
+    settings: RoomSettings = gameState.settings,
+    seed: number = SeededRandom.createSeed()
+  ): void {
+    gameState.settings = RoomSettingsValidator.clone(settings);
+    gameState.seed = seed;
+    gameState.rngState = seed;
+    const track = getTrack(gameState.settings.trackId);
+
+    gameState.players = players.map((player, index) =>
+      this.createCar(player.id, player.name, index, track, gameState.settings)
+    );
+    if (gameState.settings.teams) {
+      this.assignTeams(gameState.players, players);
+    }
+    gameState.bottles = [];
+    gameState.hazards = [];
+    gameState.powerUps = this.generatePowerUps(
+      gameState,
+      track,
+      this.getPowerUpTarget(gameState.settings, track),
+      gameState.settings.enabledPowerUps
+    );
+
+    gameState.phase = 'countdown';
+    gameState.countdownTicks = this.COUNTDOWN_TICKS;
+    gameState.winner = null;
+    gameState.raceTime = 0;
+  }
+
+  /**
+   * Puts each car in its player's team and paints it in a shade of the team
+   * color. Players without a team are split between the teams by grid order.
+   */
+  static assignTeams(cars: Car[], players: RaceEntrant[]): void {
+    const members: Partial<Record<TeamId, number>> = {};
+
+    cars.forEach((car, index) => {
+      const team = players[index].team ?? Teams.TEAM_IDS[index % Teams.TEAM_IDS.length];
+      const teamIndex = members[team] ?? 0;
+      car.team = team;
+      car.color = Teams.getColor(team, teamIndex);
+      members[team] = teamIndex + 1;
+    });
+  }
+
+  /**
+   * Removes a player's car from the race
+   */
+  static removePlayer(gameState: GameState, playerId: string): void {
+    gameState.players = gameState.players.filter(p => p.playerId !== playerId);
+  }
+
+  /**
+   * Applies one input from a player: bottle throwing, item use and driving
+   */
+  static processPlayerInput(gameState: GameState, playerId: string, keys: PlayerInput['keys']): SimulationEvent[] {
+    const events: SimulationEvent[] = [];
+    if (gameState.phase !== 'racing') return events;
+
+    const car = gameState.players.find(p => p.playerId === playerId);
+    if (!car || car.isEliminated) return events;
+
+    // Finished cars roll to a stop and wait for the rest of the field
+    if (car.finishTick !== null) {
+      keys = this.NEUTRAL_INPUT;
+    }
+
+    // Weapons fire on the tick their key goes down; holding it does nothing more
+    const combat = getGameMode(gameState.settings.mode).combat;
+    if (combat && keys.space && !car.triggers.space) {
+      const event = Weapons.throwBottle(gameState, car);
+      if (event) events.push(event);
+    }
+    if (combat && keys.item && !car.triggers.item) {
+      const event = Weapons.activateItem(gameState, car);
+      if (event) events.push(event);
+    }
+    car.triggers = { space: keys.space, item: keys.item };
+
+    GamePhysics.updateCarPhysics(car, keys, getTrack(gameState.settings.trackId));
+    return events;
+  }
+
+  /**
+   * Advances the simulation by one fixed tick, applying exactly one input per
+   * car. Cars without an entry in `inputs` coast with no keys held. During
+   * the countdown inputs are ignored and cars stay on the grid.
+   */
+  static step(gameState: GameState, inputs: Record<string, PlayerInput['keys']>): SimulationEvent[] {
+    const events: SimulationEvent[] = [];
+    gameState.tick++;
+
+    if (gameState.phase === 'countdown') {
+      return this.updateCountdown(gameState);
+    }
+
+    gameState.players.forEach(car => {
+      const keys = inputs[car.playerId] || this.NEUTRAL_INPUT;
+      events.push(...this.processPlayerInput(gameState, car.playerId, keys));
+    });
+
+    events.push(...this.updateGame(gameState));
+    return events;
+  }
+
+  /**
+   * Counts down to the start, reporting each whole second and the green light
+   */
+  static updateCountdown(gameState: GameState): SimulationEvent[] {
+    if (gameState.phase !== 'countdown') return [];
+
+    const events: SimulationEvent[] = [];
+    if (gameState.countdownTicks % this.TICK_RATE === 0) {
+      events.push({ type: 'countdown' });
+    }
+
+    gameState.countdownTicks = Math.max(0, gameState.countdownTicks - 1);
+    if (gameState.countdownTicks === 0) {
+      gameState.phase = 'racing';
+      events.push({ type: 'go' });
+    }
+
+    return events;
+  }
+
+  /**
+   * Hands a car whose health has run out to the game mode, which knocks it
+   * out or respawns it
+   */
+  static eliminateIfWrecked(gameState: GameState, car: Car, events: SimulationEvent[]): void {
+    if (car.health > 0 || car.isEliminated) return;
+
+    getGameMode(gameState.settings.mode).onWrecked(gameState, car, events);
+  }
+
+  /**
+   * Reports a car that took damage and wrecks it if that finished it off
+   */
+  static reportHit(gameState: GameState, car: Car, events: SimulationEvent[]): void {
+    events.push({ type: 'hit', playerId: car.playerId });
+    this.eliminateIfWrecked(gameState, car, events);
+  }
+
+  /**
+   * Records a car crossing the line on its last lap: its finishing tick,
+   * place and gap to the winner
+   */
+  static recordFinish(gameState: GameState, car: Car): void {
+    const finishers = gameState.players.filter(other => other.finishTick !== null);
+    const winnerTick = finishers.length > 0 ? Math.min(...finishers.map(other => other.finishTick as number)) : gameState.raceTime;
+
+    car.finishTick = gameState.raceTime;
+    car.finishPosition = finishers.length + 1;
+    car.finishGap = gameState.raceTime - winnerTick;
+  }
+
+  /**
+   * Number of power-ups the race keeps on the track; modes without combat have none
+   */
+  static getPowerUpTarget(settings: RoomSettings, track: Track): number {
+    if (!getGameMode(settings.mode).combat) return 0;
+    return RoomSettingsValidator.getPowerUpCount(settings, track.powerUpPads.length);
+  }
+
+  /**
+   * Splashes damage where a lobbed bottle comes down; it is lost if it lands off the track
+   */
+  static landLobbedBottle(gameState: GameState, bottle: Bottle, events: SimulationEvent[]): void {
+    bottle.active = false;
+    if (!GamePhysics.isOnTrack(bottle.position, getTrack(gameState.settings.trackId))) return;
+
+    events.push({ type: 'explosion', playerId: bottle.playerId });
+    Weapons.explode(gameState, bottle, Weapons.LOB_SPLASH_RADIUS, bottle.damage)
+      .forEach(hit => this.reportHit(gameState, hit, events));
+  }
+
+  /**
+   * Advances the race by one tick
+   */
+  static updateGame(gameState: GameState): SimulationEvent[] {
+    const events: SimulationEvent[] = [];
+    if (gameState.phase !== 'racing') return events;
+
+    const { settings } = gameState;
+    const track = getTrack(settings.trackId);
+    const mode = getGameMode(settings.mode);
+
+    // Update race time
+    gameState.raceTime++;
+
+    // Car-to-car collisions, resolved once every car has moved
+    const activeCars = mode.combat ? gameState.players.filter(car => GamePhysics.isRacing(car)) : [];
+    for (let i = 0; i < activeCars.length; i++) {
+      for (let j = i + 1; j < activeCars.length; j++) {
+        const a = activeCars[i];
+        const b = activeCars[j];
+        const impactSpeed = GamePhysics.resolveCarCollision(a, b, track);
+        if (impactSpeed === 0) continue;
+
+        // Teammates still bump each other but only hurt each other with friendly fire on
+        if (Teams.isFriendly(settings, a, b)) continue;
+
+        [[a, b], [b, a]].forEach(([car, other]) => {
+          const damage = GamePhysics.getRamDamage(impactSpeed, car, other);
+          if (damage > 0 && !car.isEliminated) {
+            car.health -= damage;
+            events.push({ type: 'crash', playerId: car.playerId });
+            this.eliminateIfWrecked(gameState, car, events);
+          }
+        });
+      }
+    }
+
+    // Update bottles
+    gameState.bottles = gameState.bottles.filter(bottle => {
+      if (!bottle.active || Weapons.hasExpired(bottle, gameState.tick)) return false;
+
+      // Lobbed bottles fly over everything and only hit where they land
+      if (bottle.kind === 'lob') {
+        if (Weapons.updateLobbedBottle(bottle)) {
+          this.landLobbedBottle(gameState, bottle, events);
+          return false;
+        }
+        return true;
+      }
+
+      if (bottle.kind === 'homing') {
+        Weapons.steerHomingBottle(bottle, gameState);
+      }
+      GamePhysics.updateBottlePhysics(bottle, track);
+
+      // Check collisions with cars; a shield breaks the bottle without a hit
+      for (const car of gameState.players) {
+        if (!Weapons.canHit(gameState, bottle, car)) continue;
+        if (GamePhysics.handleBottleCarCollision(bottle, car, settings.bottleKnockback)) {
+          this.reportHit(gameState, car, events);
+        }
+        if (!bottle.active) break;
+      }
+
+      return bottle.active;
+    });
+
+    // Oil slicks make cars slide; mines blow up on the first car to touch them
+    gameState.hazards = gameState.hazards.filter(hazard => {
+      if (Weapons.hasExpired(hazard, gameState.tick)) return false;
+
+      const car = Weapons.findCarOnHazard(gameState, hazard);
+      if (!car) return true;
+
+      if (hazard.kind === 'oil') {
+        CarEffects.apply(car, 'oiled', gameState.tick);
+        return true;
+      }
+
+      events.push({ type: 'explosion', playerId: hazard.playerId });
+      const damage = settings.bottleDamage * Weapons.MINE_DAMAGE_MULTIPLIER;
+      Weapons.explode(gameState, hazard, Weapons.MINE_BLAST_RADIUS, damage)
+        .forEach(hit => this.reportHit(gameState, hit, events));
+      return false;
+    });
+
+    // Update power-ups; collected ones are dropped from the state entirely
+    gameState.powerUps = gameState.powerUps.filter(powerUp => {
+      if (powerUp.collected) return false;
+
+      for (const car of gameState.players) {
+        if (GamePhysics.isRacing(car) && GamePhysics.handlePowerUpCollection(powerUp, car, gameState.tick)) {
+          events.push({ type: 'powerup', playerId: car.playerId });
+          break;
+        }
+      }
+
+      return !powerUp.collected;
+    });
+
+    // Update timed effects and lap tracking
+    gameState.players.forEach(car => {
+      if (car.isEliminated) return;
+
+      GamePhysics.updateEffects(car, gameState.tick);
+      if (car.finishTick !== null) return;
+      car.totalTime = gameState.raceTime;
+      LapTiming.update(car, gameState.raceTime);
+
+      // Lap only counts once every checkpoint has been crossed in order;
+      // each checkpoint on the way ends a sector
+      const checkpoint = car.nextCheckpoint;
+      if (GamePhysics.updateCheckpointProgress(car, track)) {
+        LapTiming.completeLap(car, gameState.raceTime);
+        car.lap++;
+        events.push({ type: 'lap', playerId: car.playerId });
+
+        if (mode.lapLimit && car.lap >= settings.laps) {
+          this.recordFinish(gameState, car);
+        }
+        mode.onLapCompleted(gameState, car, events);
+      } else if (car.nextCheckpoint !== checkpoint) {
+        LapTiming.recordSplit(car, gameState.raceTime);
+      }
+      RacePositions.updateProgress(car, track);
+    });
+
+    // Number the field in the mode's order, which ranks racing cars by track progress
+    const standings = [...gameState.players].sort(mode.compareStandings);
+    RacePositions.assign(standings, events);
+
+    // The mode decides when the race is over; its leader wins if still running
+    if (mode.isFinished(gameState)) {
+      standings.forEach((car, index) => {
+        car.finishPosition = index + 1;
+      });
+      gameState.phase = 'finished';
+      gameState.winner = standings[0] && !standings[0].isEliminated ? standings[0].playerId : null;
+    }
+
+    // Respawn power-ups periodically once fewer than half are left
+    if (gameState.raceTime % this.POWER_UP_RESPAWN_TICKS === 0) {
+      const target = this.getPowerUpTarget(settings, track);
+      if (gameState.powerUps.length < Math.ceil(target / 2)) {
+        const count = Math.min(this.POWER_UP_RESPAWN_BATCH, target - gameState.powerUps.length);
+        gameState.powerUps.push(...this.generatePowerUps(gameState, track, count, settings.enabledPowerUps, gameState.powerUps));
+      }
+    }
+
+    return events;
+  }
+}
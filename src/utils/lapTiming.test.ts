@@ -0,0 +1,68 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { getTrack } from '../tracks';
+import { GameSimulation } from './gameSimulation';
+import { LapTiming } from './lapTiming';
+import { RoomSettingsValidator } from './roomSettings';
+
+function createCar() {
+  const settings = RoomSettingsValidator.createDefault();
+  return GameSimulation.createCar('car', 'Car', 0, getTrack(settings.trackId), settings);
+}
+
+describe('LapTiming', () => {
+  it('records splits and closes the lap at the line', () => {
+    const car = createCar();
+    LapTiming.recordSplit(car, 100);
+    LapTiming.recordSplit(car, 250);
+    LapTiming.completeLap(car, 400);
+
+    assert.deepEqual(car.completedLaps, [{ time: 400, splits: [100, 250, 400] }]);
+    assert.deepEqual(LapTiming.getSectorTimes(car.completedLaps[0]), [100, 150, 150]);
+    assert.equal(car.lapStartTick, 400);
+    assert.deepEqual(car.currentSplits, []);
+  });
+
+  it('keeps the fastest lap as the best lap', () => {
+    const car = createCar();
+    LapTiming.completeLap(car, 500);
+    LapTiming.completeLap(car, 900);
+    LapTiming.completeLap(car, 1500);
+
+    assert.equal(car.bestLap?.time, 400);
+  });
+
+  it('compares each split with the best lap', () => {
+    const car = createCar();
+    assert.equal(LapTiming.getDelta(car), null);
+
+    LapTiming.recordSplit(car, 100);
+    LapTiming.completeLap(car, 300);
+    assert.equal(LapTiming.getDelta(car), null);
+
+    LapTiming.recordSplit(car, 390);
+    assert.equal(LapTiming.getDelta(car), -10);
+
+    LapTiming.update(car, 420);
+    assert.equal(car.lapTime, 120);
+  });
+
+  it('adds up to the finishing time over a race', () => {
+    const settings = RoomSettingsValidator.validate({ laps: 1, mode: 'race' });
+    const gameState = GameSimulation.createInitialGameState('room', settings);
+    GameSimulation.startRace(gameState, [{ id: 'a', name: 'A' }], settings, 1);
+    const car = gameState.players[0];
+    const track = getTrack(settings.trackId);
+
+    while (gameState.phase === 'countdown') GameSimulation.step(gameState, {});
+    // Teleport through each checkpoint, then across the start line
+    [...track.checkpoints, track.startLine].forEach(gate => {
+      for (let i = 0; i < 30; i++) GameSimulation.step(gameState, {});
+      car.position = { x: (gate.start.x + gate.end.x) / 2, y: (gate.start.y + gate.end.y) / 2 };
+      GameSimulation.step(gameState, {});
+    });
+
+    assert.equal(car.finishTick, car.completedLaps[0]?.time);
+    assert.equal(car.completedLaps[0].splits.length, track.checkpoints.length + 1);
+  });
+});
@@ -0,0 +1,59 @@
+import { Car, LapRecord } from '../types/game';
+
+/**
+ * Lap and sector timing, counted in race ticks. Each checkpoint splits the
+ * lap into sectors: a split is the lap time when a checkpoint is crossed,
+ * and the last sector ends at the start line. A car's best lap keeps its
+ * splits so the next laps can be compared against it as they are driven.
+ */
+export class LapTiming {
+  /**
+   * Keeps the current lap's running time up to date
+   */
+  static update(car: Car, raceTime: number): void {
+    car.lapTime = raceTime - car.lapStartTick;
+  }
+
+  /**
+   * Records the lap time as the car crosses a checkpoint
+   */
+  static recordSplit(car: Car, raceTime: number): void {
+    car.currentSplits.push(raceTime - car.lapStartTick);
+  }
+
+  /**
+   * Closes the lap at the start line, keeps it if it is the car's best and
+   * starts the next one
+   */
+  static completeLap(car: Car, raceTime: number): void {
+    this.recordSplit(car, raceTime);
+    const lap: LapRecord = { time: raceTime - car.lapStartTick, splits: car.currentSplits };
+
+    car.completedLaps.push(lap);
+    if (!car.bestLap || lap.time < car.bestLap.time) {
+      car.bestLap = lap;
+    }
+    car.lapStartTick = raceTime;
+    car.lapTime = 0;
+    car.currentSplits = [];
+  }
+
+  /**
+   * Time of each sector in a lap
+   */
+  static getSectorTimes(lap: LapRecord): number[] {
+    return lap.splits.map((split, index) => split - (index > 0 ? lap.splits[index - 1] : 0));
+  }
+
+  /**
+   * Ticks ahead (negative) or behind (positive) the car's best lap at the
+   * last checkpoint it crossed; null before its first completed lap or
+   * before the first checkpoint of the current one
+   */
+  static getDelta(car: Car): number | null {
+    const index = car.currentSplits.length - 1;
+    if (!car.bestLap || index < 0) return null;
+
+    return car.currentSplits[index] - car.bestLap.splits[index];
+  }
+}
@@ -0,0 +1,73 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Car, SimulationEvent } from '../types/game';
+import { getTrack } from '../tracks';
+import { GameSimulation } from './gameSimulation';
+import { RacePositions } from './racePositions';
+import { RoomSettingsValidator } from './roomSettings';
+
+const settings = RoomSettingsValidator.createDefault();
+const track = getTrack(settings.trackId);
+
+function createCars(count: number): Car[] {
+  return Array.from({ length: count }, (_, index) =>
+    GameSimulation.createCar(`car${index}`, `Car ${index}`, index, track, settings)
+  );
+}
+
+// A point a given share of the way along one leg of the racing line
+function alongLine(leg: number, share: number) {
+  const from = track.racingLine[leg];
+  const to = track.racingLine[(leg + 1) % track.racingLine.length];
+  return { x: from.x + (to.x - from.x) * share, y: from.y + (to.y - from.y) * share };
+}
+
+describe('RacePositions', () => {
+  it('measures progress along the racing line', () => {
+    const [car] = createCars(1);
+    car.position = alongLine(0, 0.25);
+    RacePositions.updateProgress(car, track);
+    const early = car.trackProgress;
+
+    car.position = alongLine(0, 0.75);
+    RacePositions.updateProgress(car, track);
+
+    assert.ok(car.trackProgress > early);
+  });
+
+  it('ranks by lap, then checkpoint, then progress', () => {
+    const [leader, second, third, last] = createCars(4);
+    leader.lap = 2;
+    second.lap = 1;
+    second.nextCheckpoint = 1;
+    third.lap = 1;
+    third.trackProgress = 200;
+    last.lap = 1;
+    last.trackProgress = 100;
+
+    const order = [last, third, leader, second].sort(RacePositions.compare);
+
+    assert.deepEqual(order, [leader, second, third, last]);
+  });
+
+  it('keeps the current order for cars level on progress', () => {
+    const [a, b] = createCars(2);
+    a.racePosition = 2;
+    b.racePosition = 1;
+
+    assert.deepEqual([a, b].sort(RacePositions.compare), [b, a]);
+  });
+
+  it('reports only the cars whose place changed', () => {
+    const cars = createCars(3);
+    const events: SimulationEvent[] = [];
+
+    RacePositions.assign([cars[1], cars[0], cars[2]], events);
+
+    assert.deepEqual(cars.map(car => car.racePosition), [2, 1, 3]);
+    assert.deepEqual(events, [
+      { type: 'position', playerId: 'car1', position: 1 },
+      { type: 'position', playerId: 'car0', position: 2 }
+    ]);
+  });
+});
@@ -0,0 +1,107 @@
+import { Car, Position, SimulationEvent, Track, TrackGate } from '../types/game';
+import { GamePhysics } from './gamePhysics';
+
+interface RacingLine {
+  points: Position[];
+  // Distance along the line to each point; the last entry is the full lap
+  distances: number[];
+  // Distance along the line to each checkpoint gate, then the start line
+  gateDistances: number[];
+}
+
+// Tracks never change, so each racing line is measured once
+const racingLines = new Map<string, RacingLine>();
+
+/**
+ * Live race positions. Cars are ranked by lap, then by the checkpoint they
+ * are heading for, then by how far along the track's racing line they are.
+ * The simulation measures every car's progress each tick, hands the ordered
+ * field back here to number it, and reports each change of place.
+ */
+export class RacePositions {
+  /**
+   * Measures how far along the racing line the car is into its current lap,
+   * kept within the stretch between the gates it is racing between
+   */
+  static updateProgress(car: Car, track: Track): void {
+    const line = this.getRacingLine(track);
+    const lapLength = line.distances[line.distances.length - 1];
+    const sectorStart = car.nextCheckpoint > 0 ? line.gateDistances[car.nextCheckpoint - 1] : 0;
+    const sectorEnd = line.gateDistances[car.nextCheckpoint];
+
+    // Near the start line the nearest point can be on the other side of the loop's ends
+    let distance = this.project(line, car.position);
+    if (distance < sectorStart - lapLength / 2) distance += lapLength;
+    if (distance > sectorEnd + lapLength / 2) distance -= lapLength;
+
+    car.trackProgress = Math.max(sectorStart, Math.min(sectorEnd, distance));
+  }
+
+  /**
+   * Orders cars by race progress, leader first. Cars level on progress keep
+   * their current places, so a tie never swaps them back and forth.
+   */
+  static compare(a: Car, b: Car): number {
+    if (a.lap !== b.lap) return b.lap - a.lap;
+    if (a.nextCheckpoint !== b.nextCheckpoint) return b.nextCheckpoint - a.nextCheckpoint;
+    return b.trackProgress - a.trackProgress || a.racePosition - b.racePosition;
+  }
+
+  /**
+   * Numbers the cars in the order given, reporting every car whose place changed
+   */
+  static assign(standings: Car[], events: SimulationEvent[]): void {
+    standings.forEach((car, index) => {
+      const position = index + 1;
+      if (car.racePosition === position) return;
+
+      car.racePosition = position;
+      events.push({ type: 'position', playerId: car.playerId, position });
+    });
+  }
+
+  private static getRacingLine(track: Track): RacingLine {
+    const cached = racingLines.get(track.id);
+    if (cached) return cached;
+
+    const points = track.racingLine;
+    const distances = [0];
+    points.forEach((point, index) => {
+      const next = points[(index + 1) % points.length];
+      distances.push(distances[index] + Math.hypot(next.x - point.x, next.y - point.y));
+    });
+
+    const line: RacingLine = { points, distances, gateDistances: [] };
+    line.gateDistances = [
+      ...track.checkpoints.map(gate => this.project(line, this.gateCenter(gate))),
+      distances[distances.length - 1]
+    ];
+
+    racingLines.set(track.id, line);
+    return line;
+  }
+
+  /**
+   * Distance along the racing line to the point on it nearest `position`
+   */
+  private static project(line: RacingLine, position: Position): number {
+    let best = 0;
+    let bestDistanceSq = Infinity;
+
+    line.points.forEach((point, index) => {
+      const next = line.points[(index + 1) % line.points.length];
+      const closest = GamePhysics.closestPointOnSegment(position, point, next);
+      const distanceSq = (position.x - closest.x) ** 2 + (position.y - closest.y) ** 2;
+      if (distanceSq < bestDistanceSq) {
+        bestDistanceSq = distanceSq;
+        best = line.distances[index] + Math.hypot(closest.x - point.x, closest.y - point.y);
+      }
+    });
+
+    return best;
+  }
+
+  private static gateCenter(gate: TrackGate): Position {
+    return { x: (gate.start.x + gate.end.x) / 2, y: (gate.start.y + gate.end.y) / 2 };
+  }
+}
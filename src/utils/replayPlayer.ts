@@ -0,0 +1,128 @@
+import { GameState, PlayerInput, RaceReplay } from '../types/game';
+import { GameSimulation } from './gameSimulation';
+import { RoomSettingsValidator } from './roomSettings';
+
+interface ReplayCursor {
+  state: GameState;
+  keys: Record<string, PlayerInput['keys']>;
+  inputIndex: number;
+  departureIndex: number;
+}
+
+/**
+ * Re-runs a recorded race through the shared simulation. The whole race is
+ * simulated once up front, keeping a keyframe every few seconds, so seeking
+ * anywhere only replays the ticks since the nearest keyframe.
+ */
+export class ReplayPlayer {
+  static readonly VERSION = 1;
+  static readonly KEYFRAME_INTERVAL = 5 * GameSimulation.TICK_RATE;
+
+  private readonly replay: RaceReplay;
+  private readonly keyframes: ReplayCursor[] = [];
+  private cursor: ReplayCursor;
+
+  constructor(replay: RaceReplay) {
+    this.replay = replay;
+
+    const state = GameSimulation.createInitialGameState(replay.roomId, replay.settings);
+    GameSimulation.startRace(state, replay.players, replay.settings, replay.seed);
+    state.tick = replay.startTick;
+
+    const start: ReplayCursor = { state, keys: {}, inputIndex: 0, departureIndex: 0 };
+    this.keyframes.push(this.copyCursor(start));
+
+    const cursor = this.copyCursor(start);
+    while (cursor.state.tick < replay.endTick) {
+      this.stepCursor(cursor);
+      if ((cursor.state.tick - replay.startTick) % ReplayPlayer.KEYFRAME_INTERVAL === 0) {
+        this.keyframes.push(this.copyCursor(cursor));
+      }
+    }
+
+    this.cursor = this.copyCursor(start);
+  }
+
+  /**
+   * Checks that an untrusted value (e.g. a loaded file) is a replay this
+   * version can play, returning it with sanitized settings
+   */
+  static parse(value: unknown): RaceReplay | null {
+    if (!value || typeof value !== 'object') return null;
+
+    const replay = value as Partial<RaceReplay>;
+    if (
+      replay.version !== this.VERSION ||
+      typeof replay.seed !== 'number' ||
+      typeof replay.startTick !== 'number' ||
+      typeof replay.endTick !== 'number' ||
+      replay.endTick < replay.startTick ||
+      !Array.isArray(replay.players) ||
+      !Array.isArray(replay.inputs) ||
+      !Array.isArray(replay.departures)
+    ) {
+      return null;
+    }
+
+    return {
+      ...(replay as RaceReplay),
+      settings: RoomSettingsValidator.validate(replay.settings)
+    };
+  }
+
+  get startTick(): number {
+    return this.replay.startTick;
+  }
+
+  get endTick(): number {
+    return this.replay.endTick;
+  }
+
+  /**
+   * Returns a copy of the race state at the given tick
+   */
+  seek(tick: number): GameState {
+    const target = Math.max(this.startTick, Math.min(this.endTick, Math.floor(tick)));
+
+    if (target < this.cursor.state.tick || target - this.cursor.state.tick > ReplayPlayer.KEYFRAME_INTERVAL) {
+      const keyframe = [...this.keyframes].reverse().find(frame => frame.state.tick <= target) || this.keyframes[0];
+      this.cursor = this.copyCursor(keyframe);
+    }
+
+    while (this.cursor.state.tick < target) {
+      this.stepCursor(this.cursor);
+    }
+
+    return structuredClone(this.cursor.state);
+  }
+
+  /**
+   * Applies the departures and key changes recorded for the next tick, then steps
+   */
+  private stepCursor(cursor: ReplayCursor): void {
+    const tick = cursor.state.tick + 1;
+    const { departures, inputs } = this.replay;
+
+    while (cursor.departureIndex < departures.length && departures[cursor.departureIndex].tick <= tick) {
+      GameSimulation.removePlayer(cursor.state, departures[cursor.departureIndex].playerId);
+      cursor.departureIndex++;
+    }
+
+    while (cursor.inputIndex < inputs.length && inputs[cursor.inputIndex].tick <= tick) {
+      const frame = inputs[cursor.inputIndex];
+      cursor.keys[frame.playerId] = frame.keys;
+      cursor.inputIndex++;
+    }
+
+    GameSimulation.step(cursor.state, cursor.keys);
+  }
+
+  private copyCursor(cursor: ReplayCursor): ReplayCursor {
+    return {
+      state: structuredClone(cursor.state),
+      keys: { ...cursor.keys },
+      inputIndex: cursor.inputIndex,
+      departureIndex: cursor.departureIndex
+    };
+  }
+}
@@ -0,0 +1,129 @@
+import { GameModeId, PowerUpDensity, PowerUpType, RoomSettings } from '../types/game';
+import { DEFAULT_TRACK_ID, TRACKS } from '../tracks';
+import { DEFAULT_GAME_MODE, GAME_MODES } from '../modes';
+
+/**
+ * Defaults, limits and validation for the race settings a host can edit.
+ * Used by the lobby to build the form and by the server to sanitize updates.
+ */
+export class RoomSettingsValidator {
+  static readonly LAP_OPTIONS = [1, 3, 5, 10];
+  static readonly DNF_TIMEOUT_OPTIONS = [15, 30, 60, 120];
+  static readonly MIN_PLAYERS = 2;
+  static readonly MAX_PLAYERS = 6;
+  static readonly MAX_STARTING_BOTTLES = 20;
+  static readonly MIN_BOTTLE_DAMAGE = 5;
+  static readonly MAX_BOTTLE_DAMAGE = 100;
+  static readonly POWER_UP_TYPES: PowerUpType[] = ['speed', 'shield', 'health', 'bottles', 'item'];
+
+  // Share of a track's power-up pads that is filled at the start of a race
+  static readonly POWER_UP_DENSITY: Record<PowerUpDensity, number> = {
+    off: 0,
+    low: 0.25,
+    medium: 0.5,
+    high: 1
+  };
+
+  static readonly DEFAULTS: Readonly<RoomSettings> = {
+    mode: DEFAULT_GAME_MODE,
+    trackId: DEFAULT_TRACK_ID,
+    laps: 3,
+    maxPlayers: 6,
+    startingBottles: 5,
+    bottleDamage: 20,
+    powerUpDensity: 'high',
+    enabledPowerUps: ['speed', 'shield', 'health', 'bottles', 'item'],
+    bottleKnockback: true,
+    selfHit: false,
+    dnfTimeout: 30,
+    teams: false,
+    friendlyFire: false
+  };
+
+  /**
+   * Creates a fresh copy of the default settings
+   */
+  static createDefault(): RoomSettings {
+    return this.clone(this.DEFAULTS);
+  }
+
+  /**
+   * Copies settings so they can be changed without affecting the original
+   */
+  static clone(settings: Readonly<RoomSettings>): RoomSettings {
+    return {
+      ...settings,
+      enabledPowerUps: [...settings.enabledPowerUps]
+    };
+  }
+
+  /**
+   * Merges an untrusted partial update into the current settings. Invalid
+   * fields are ignored and numbers are clamped to their allowed range.
+   */
+  static validate(update: unknown, current: RoomSettings = this.createDefault()): RoomSettings {
+    const settings = this.clone(current);
+    if (!update || typeof update !== 'object') return settings;
+
+    const patch = update as Partial<Record<keyof RoomSettings, unknown>>;
+
+    if (typeof patch.mode === 'string' && patch.mode in GAME_MODES) {
+      settings.mode = patch.mode as GameModeId;
+    }
+    if (typeof patch.trackId === 'string' && TRACKS[patch.trackId]) {
+      settings.trackId = patch.trackId;
+    }
+    if (typeof patch.laps === 'number' && this.LAP_OPTIONS.includes(patch.laps)) {
+      settings.laps = patch.laps;
+    }
+    if (this.isNumber(patch.maxPlayers)) {
+      settings.maxPlayers = this.clamp(patch.maxPlayers, this.MIN_PLAYERS, this.MAX_PLAYERS);
+    }
+    if (this.isNumber(patch.startingBottles)) {
+      settings.startingBottles = this.clamp(patch.startingBottles, 0, this.MAX_STARTING_BOTTLES);
+    }
+    if (this.isNumber(patch.bottleDamage)) {
+      settings.bottleDamage = this.clamp(patch.bottleDamage, this.MIN_BOTTLE_DAMAGE, this.MAX_BOTTLE_DAMAGE);
+    }
+    if (typeof patch.powerUpDensity === 'string' && patch.powerUpDensity in this.POWER_UP_DENSITY) {
+      settings.powerUpDensity = patch.powerUpDensity as PowerUpDensity;
+    }
+    if (Array.isArray(patch.enabledPowerUps)) {
+      const enabled: unknown[] = patch.enabledPowerUps;
+      settings.enabledPowerUps = this.POWER_UP_TYPES.filter(type => enabled.includes(type));
+    }
+    if (typeof patch.bottleKnockback === 'boolean') {
+      settings.bottleKnockback = patch.bottleKnockback;
+    }
+    if (typeof patch.selfHit === 'boolean') {
+      settings.selfHit = patch.selfHit;
+    }
+    if (typeof patch.dnfTimeout === 'number' && this.DNF_TIMEOUT_OPTIONS.includes(patch.dnfTimeout)) {
+      settings.dnfTimeout = patch.dnfTimeout;
+    }
+    if (typeof patch.teams === 'boolean') {
+      settings.teams = patch.teams;
+    }
+    if (typeof patch.friendlyFire === 'boolean') {
+      settings.friendlyFire = patch.friendlyFire;
+    }
+
+    return settings;
+  }
+
+  /**
+   * Number of power-ups a race keeps on the track for the given settings
+   */
+  static getPowerUpCount(settings: RoomSettings, padCount: number): number {
+    if (settings.enabledPowerUps.length === 0) return 0;
+    return Math.round(padCount * this.POWER_UP_DENSITY[settings.powerUpDensity]);
+  }
+
+  private static isNumber(value: unknown): value is number {
+    return typeof value === 'number' && Number.isFinite(value);
+  }
+
+  private static clamp(value: number, min: number, max: number): number {
+    return Math.max(min, Math.min(max, Math.round(value)));
+  }
+}
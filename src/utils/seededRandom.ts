@@ -0,0 +1,25 @@
+/**
+ * Small deterministic PRNG (mulberry32) so a race can be re-simulated exactly
+ * from its seed. The state is a plain number that lives in the game state.
+ */
+export class SeededRandom {
+  /**
+   * Picks a fresh seed for a new race
+   */
+  static createSeed(): number {
+    return Math.floor(Math.random() * 0x100000000) >>> 0;
+  }
+
+  /**
+   * Returns a number in [0, 1) and the state to use for the next draw
+   */
+  static next(state: number): { value: number; state: number } {
+    const nextState = (state + 0x6d2b79f5) >>> 0;
+    let t = nextState;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    const value = ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+
+    return { value, state: nextState };
+  }
+}
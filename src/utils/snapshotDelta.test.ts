@@ -0,0 +1,52 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { GameState } from '../types/game';
+import { GameSimulation } from './gameSimulation';
+import { RoomSettingsValidator } from './roomSettings';
+import { SnapshotDelta } from './snapshotDelta';
+
+function startRace(): GameState {
+  const settings = RoomSettingsValidator.createDefault();
+  const gameState = GameSimulation.createInitialGameState('room', settings);
+  GameSimulation.startRace(gameState, [{ id: 'a', name: 'A' }, { id: 'b', name: 'B' }], settings, 3);
+  while (gameState.phase === 'countdown') GameSimulation.step(gameState, {});
+  return gameState;
+}
+
+describe('SnapshotDelta', () => {
+  it('rebuilds the next state from the base and the patch', () => {
+    const gameState = startRace();
+    const base = structuredClone(gameState);
+    const fire = { ...GameSimulation.NEUTRAL_INPUT, up: true, space: true };
+
+    for (let i = 0; i < 30; i++) GameSimulation.step(gameState, { a: fire });
+
+    assert.ok(gameState.bottles.length > 0);
+    assert.deepEqual(SnapshotDelta.apply(base, SnapshotDelta.diff(base, gameState)), gameState);
+  });
+
+  it('drops entities that are gone from the next state', () => {
+    const base = startRace();
+    const next = structuredClone(base);
+    next.powerUps = next.powerUps.slice(1);
+
+    assert.deepEqual(SnapshotDelta.apply(base, SnapshotDelta.diff(base, next)), next);
+  });
+
+  it('leaves the base state untouched', () => {
+    const gameState = startRace();
+    const base = structuredClone(gameState);
+    const copy = structuredClone(base);
+
+    GameSimulation.step(gameState, { a: { ...GameSimulation.NEUTRAL_INPUT, up: true } });
+    SnapshotDelta.apply(base, SnapshotDelta.diff(base, gameState));
+
+    assert.deepEqual(base, copy);
+  });
+
+  it('sends an empty patch when nothing changed', () => {
+    const base = startRace();
+
+    assert.deepEqual(SnapshotDelta.diff(base, structuredClone(base)), {});
+  });
+});
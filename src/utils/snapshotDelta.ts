@@ -0,0 +1,192 @@
+import { GameState } from '../types/game';
+
+type Json = null | boolean | number | string | Json[] | { [key: string]: Json };
+
+/**
+ * Patch for an object: changed keys map to a nested patch, removed keys are
+ * listed under `$del`.
+ */
+interface ObjectPatch {
+  $set?: { [key: string]: Json };
+  $patch?: { [key: string]: Patch };
+  $del?: string[];
+}
+
+/**
+ * Patch for an array of entities with an `id`: new entities are appended,
+ * existing ones patched in place and removed ones dropped, which preserves
+ * the server's ordering since entities are only ever appended.
+ */
+interface EntityArrayPatch {
+  $add?: Json[];
+  $update?: { [id: string]: Patch };
+  $remove?: string[];
+}
+
+export type Patch = ObjectPatch | EntityArrayPatch;
+
+export interface SnapshotMessage {
+  tick: number;
+  baseTick: number | null;
+  state?: GameState;
+  delta?: Patch;
+}
+
+/**
+ * Structural diffing of game states so only what changed since a snapshot
+ * the client has acknowledged needs to be sent.
+ */
+export class SnapshotDelta {
+  /**
+   * Builds a patch that turns `base` into `next`
+   */
+  static diff(base: GameState, next: GameState): Patch {
+    return this.diffObject(base as unknown as Record<string, Json>, next as unknown as Record<string, Json>) || {};
+  }
+
+  /**
+   * Applies a patch to `base` without mutating it; unchanged branches are shared
+   */
+  static apply(base: GameState, patch: Patch): GameState {
+    return this.applyObject(base as unknown as Record<string, Json>, patch as ObjectPatch) as unknown as GameState;
+  }
+
+  private static diffValue(base: Json, next: Json): { changed: false } | { changed: true; patch?: Patch; value?: Json } {
+    if (base === next) return { changed: false };
+
+    if (this.isEntityArray(base) && this.isEntityArray(next)) {
+      const patch = this.diffEntities(base, next);
+      return patch ? { changed: true, patch } : { changed: false };
+    }
+
+    if (this.isPlainObject(base) && this.isPlainObject(next)) {
+      const patch = this.diffObject(base, next);
+      return patch ? { changed: true, patch } : { changed: false };
+    }
+
+    if (Array.isArray(base) && Array.isArray(next) && this.deepEqual(base, next)) {
+      return { changed: false };
+    }
+
+    return { changed: true, value: next };
+  }
+
+  private static diffObject(base: { [key: string]: Json }, next: { [key: string]: Json }): ObjectPatch | null {
+    const patch: ObjectPatch = {};
+    let changed = false;
+
+    Object.keys(next).forEach(key => {
+      if (next[key] === undefined) return;
+
+      if (!(key in base) || base[key] === undefined) {
+        (patch.$set ??= {})[key] = next[key];
+        changed = true;
+        return;
+      }
+
+      const result = this.diffValue(base[key], next[key]);
+      if (!result.changed) return;
+
+      changed = true;
+      if (result.patch) {
+        (patch.$patch ??= {})[key] = result.patch;
+      } else {
+        (patch.$set ??= {})[key] = result.value as Json;
+      }
+    });
+
+    Object.keys(base).forEach(key => {
+      if (base[key] !== undefined && (!(key in next) || next[key] === undefined)) {
+        (patch.$del ??= []).push(key);
+        changed = true;
+      }
+    });
+
+    return changed ? patch : null;
+  }
+
+  private static diffEntities(base: { [key: string]: Json }[], next: { [key: string]: Json }[]): EntityArrayPatch | null {
+    const patch: EntityArrayPatch = {};
+    const baseById = new Map(base.map(entity => [entity.id as string, entity]));
+    const nextIds = new Set(next.map(entity => entity.id as string));
+    let changed = false;
+
+    next.forEach(entity => {
+      const previous = baseById.get(entity.id as string);
+      if (!previous) {
+        (patch.$add ??= []).push(entity);
+        changed = true;
+        return;
+      }
+
+      const entityPatch = this.diffObject(previous, entity);
+      if (entityPatch) {
+        (patch.$update ??= {})[entity.id as string] = entityPatch;
+        changed = true;
+      }
+    });
+
+    base.forEach(entity => {
+      if (!nextIds.has(entity.id as string)) {
+        (patch.$remove ??= []).push(entity.id as string);
+        changed = true;
+      }
+    });
+
+    return changed ? patch : null;
+  }
+
+  private static applyObject(base: { [key: string]: Json }, patch: ObjectPatch): { [key: string]: Json } {
+    const result = { ...base };
+
+    Object.entries(patch.$patch || {}).forEach(([key, childPatch]) => {
+      const current = result[key];
+      result[key] = Array.isArray(current)
+        ? this.applyEntities(current as { [key: string]: Json }[], childPatch as EntityArrayPatch)
+        : this.applyObject(current as { [key: string]: Json }, childPatch as ObjectPatch);
+    });
+    Object.entries(patch.$set || {}).forEach(([key, value]) => {
+      result[key] = value;
+    });
+    (patch.$del || []).forEach(key => {
+      delete result[key];
+    });
+
+    return result;
+  }
+
+  private static applyEntities(base: { [key: string]: Json }[], patch: EntityArrayPatch): Json[] {
+    const removed = new Set(patch.$remove || []);
+    const updates = patch.$update || {};
+
+    return [
+      ...base
+        .filter(entity => !removed.has(entity.id as string))
+        .map(entity => {
+          const update = updates[entity.id as string];
+          return update ? this.applyObject(entity, update as ObjectPatch) : entity;
+        }),
+      ...(patch.$add || [])
+    ];
+  }
+
+  private static isPlainObject(value: Json): value is { [key: string]: Json } {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
+  private static isEntityArray(value: Json): value is { [key: string]: Json }[] {
+    return Array.isArray(value) && value.every(item => this.isPlainObject(item) && typeof item.id === 'string');
+  }
+
+  private static deepEqual(a: Json, b: Json): boolean {
+    if (a === b) return true;
+    if (Array.isArray(a) && Array.isArray(b)) {
+      return a.length === b.length && a.every((item, index) => this.deepEqual(item, b[index]));
+    }
+    if (this.isPlainObject(a) && this.isPlainObject(b)) {
+      const keys = Object.keys(a);
+      return keys.length === Object.keys(b).length && keys.every(key => this.deepEqual(a[key], b[key]));
+    }
+    return false;
+  }
+}
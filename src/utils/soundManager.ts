@@ -73,6 +73,19 @@ export class SoundManager {
     const throwSound = this.createTone(400, 0.2, 'square');
     if (throwSound) this.sounds.set('throw', throwSound);
 
+    // Item sounds: homing and lobbed bottles, oil slick and mine drops
+    const homingSound = this.createTone(300, 0.3, 'sawtooth');
+    if (homingSound) this.sounds.set('homing', homingSound);
+
+    const lobSound = this.createTone(250, 0.4, 'sine');
+    if (lobSound) this.sounds.set('lob', lobSound);
+
+    const oilSound = this.createTone(120, 0.4, 'sine');
+    if (oilSound) this.sounds.set('oil', oilSound);
+
+    const mineSound = this.createTone(500, 0.15, 'square');
+    if (mineSound) this.sounds.set('mine', mineSound);
+
     // Hit sound
     const hitSound = this.createTone(200, 0.3, 'square');
     if (hitSound) this.sounds.set('hit', hitSound);
@@ -88,6 +101,13 @@ export class SoundManager {
     // Lap complete sound
     const lapSound = this.createTone(800, 0.5, 'sine');
     if (lapSound) this.sounds.set('lap', lapSound);
+
+    // Countdown beep and start signal
+    const countdownSound = this.createTone(440, 0.3, 'sine');
+    if (countdownSound) this.sounds.set('countdown', countdownSound);
+
+    const goSound = this.createTone(880, 0.6, 'square');
+    if (goSound) this.sounds.set('go', goSound);
   }
 
   /**
@@ -0,0 +1,103 @@
+import { Car, GameState, RoomPlayer, RoomSettings, TeamId, TeamStanding } from '../types/game';
+import { getGameMode } from '../modes';
+
+/**
+ * Team assignment, colors, friendly-fire rules and scoring for team races.
+ * Teams are picked in the lobby; in the race each car scores points for its
+ * team by where it places in the game mode's standings.
+ */
+export class Teams {
+  static readonly TEAM_IDS: TeamId[] = ['red', 'blue'];
+
+  static readonly NAMES: Record<TeamId, string> = {
+    red: 'Red Team',
+    blue: 'Blue Team'
+  };
+
+  // Shades of the team color, so teammates can still be told apart
+  static readonly COLORS: Record<TeamId, string[]> = {
+    red: ['#ff4444', '#ff8c42', '#ff6fa8'],
+    blue: ['#4488ff', '#44ddff', '#8866ff']
+  };
+
+  // Points for each place in the standings, best first; lower places score nothing
+  static readonly POSITION_POINTS = [10, 8, 6, 5, 4, 3];
+
+  /**
+   * The team with the fewest players, for someone joining the room
+   */
+  static pickTeam(players: RoomPlayer[]): TeamId {
+    return this.TEAM_IDS.reduce((smallest, team) =>
+      this.countMembers(players, team) < this.countMembers(players, smallest) ? team : smallest
+    );
+  }
+
+  /**
+   * Moves players off the larger team until the sizes differ by at most one.
+   * The most recent arrivals are the ones moved.
+   */
+  static balance(players: RoomPlayer[]): void {
+    players.forEach(player => {
+      if (!player.team) player.team = this.pickTeam(players.filter(other => other.team));
+    });
+
+    for (let i = players.length - 1; i >= 0; i--) {
+      const team = players[i].team as TeamId;
+      const smallest = this.pickTeam(players);
+      if (this.countMembers(players, team) - this.countMembers(players, smallest) > 1) {
+        players[i].team = smallest;
+      }
+    }
+  }
+
+  /**
+   * Color for a team's car, by how many teammates were placed before it
+   */
+  static getColor(team: TeamId, teamIndex: number): string {
+    const shades = this.COLORS[team];
+    return shades[teamIndex % shades.length];
+  }
+
+  static areTeammates(a: Car, b: Car): boolean {
+    return a.team !== null && a.team === b.team;
+  }
+
+  /**
+   * Whether two different cars on the same team are kept from hurting each other
+   */
+  static isFriendly(settings: RoomSettings, a: Car, b: Car): boolean {
+    return !settings.friendlyFire && a.playerId !== b.playerId && this.areTeammates(a, b);
+  }
+
+  /**
+   * Points each team has scored from its cars' places, leading team first.
+   * Ties go to the team whose best car is placed higher.
+   */
+  static getStandings(gameState: GameState): TeamStanding[] {
+    const order = [...gameState.players].sort(getGameMode(gameState.settings.mode).compareStandings);
+
+    return this.TEAM_IDS
+      .map(team => ({
+        team,
+        points: order.reduce((sum, car, index) => sum + (car.team === team ? this.POSITION_POINTS[index] ?? 0 : 0), 0),
+        cars: order.filter(car => car.team === team)
+      }))
+      .sort((a, b) => b.points - a.points || this.bestPlace(order, a) - this.bestPlace(order, b));
+  }
+
+  /**
+   * Points a car has earned for its team at its current place
+   */
+  static getPoints(gameState: GameState, car: Car): number {
+    const order = [...gameState.players].sort(getGameMode(gameState.settings.mode).compareStandings);
+    return this.POSITION_POINTS[order.indexOf(car)] ?? 0;
+  }
+
+  private static countMembers(players: RoomPlayer[], team: TeamId): number {
+    return players.filter(player => player.team === team).length;
+  }
+
+  private static bestPlace(order: Car[], standing: TeamStanding): number {
+    return standing.cars.length > 0 ? order.indexOf(standing.cars[0]) : order.length;
+  }
+}
@@ -0,0 +1,63 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { GameState, RoomSettings, TeamId } from '../types/game';
+import { GameSimulation } from './gameSimulation';
+import { RoomSettingsValidator } from './roomSettings';
+import { Weapons } from './weapons';
+
+function startRace(update: Partial<RoomSettings> = {}, teams: TeamId[] = ['red', 'blue', 'red']): GameState {
+  const settings = RoomSettingsValidator.validate(update);
+  const gameState = GameSimulation.createInitialGameState('room', settings);
+  GameSimulation.startRace(gameState, teams.map((team, index) => ({ id: `car${index}`, name: `Car ${index}`, team })), settings, 1);
+  while (gameState.phase === 'countdown') GameSimulation.step(gameState, {});
+  return gameState;
+}
+
+function throwFrom(gameState: GameState, index: number) {
+  const car = gameState.players[index];
+  Weapons.throwBottle(gameState, car);
+  return gameState.bottles[gameState.bottles.length - 1];
+}
+
+describe('Weapons.canHit', () => {
+  it('lets bottles hit opponents', () => {
+    const gameState = startRace();
+    const bottle = throwFrom(gameState, 0);
+
+    assert.equal(Weapons.canHit(gameState, bottle, gameState.players[1]), true);
+  });
+
+  it('keeps the thrower safe unless self-hits are on and the grace time is over', () => {
+    const gameState = startRace({ selfHit: true });
+    const bottle = throwFrom(gameState, 0);
+    const thrower = gameState.players[0];
+
+    assert.equal(Weapons.canHit(gameState, bottle, thrower), false);
+    gameState.tick += Weapons.SELF_HIT_GRACE_TICKS;
+    assert.equal(Weapons.canHit(gameState, bottle, thrower), true);
+
+    gameState.settings.selfHit = false;
+    assert.equal(Weapons.canHit(gameState, bottle, thrower), false);
+  });
+
+  it('spares teammates unless friendly fire is on', () => {
+    const gameState = startRace({ teams: true });
+    const bottle = throwFrom(gameState, 0);
+    const teammate = gameState.players[2];
+
+    assert.equal(Weapons.canHit(gameState, bottle, teammate), false);
+    gameState.settings.friendlyFire = true;
+    assert.equal(Weapons.canHit(gameState, bottle, teammate), true);
+  });
+
+  it('never hits cars that are out of the race or have finished', () => {
+    const gameState = startRace();
+    const bottle = throwFrom(gameState, 0);
+    const [, wrecked, finished] = gameState.players;
+    wrecked.isEliminated = true;
+    finished.finishTick = gameState.raceTime;
+
+    assert.equal(Weapons.canHit(gameState, bottle, wrecked), false);
+    assert.equal(Weapons.canHit(gameState, bottle, finished), false);
+  });
+});
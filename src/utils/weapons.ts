@@ -0,0 +1,270 @@
+import { Bottle, Car, GameState, Hazard, HazardKind, ItemType, ProjectileKind, SimulationEvent, WeaponType } from '../types/game';
+import { GamePhysics } from './gamePhysics';
+import { Teams } from './teams';
+
+/**
+ * Items a car can hold and the projectiles and hazards they create. A car
+ * carries at most one item, picked up from an item box and fired with its own
+ * key; plain bottles stay on Space. Damage scales with the room's bottle damage.
+ *
+ * Every weapon fires once per key press and then waits out its cooldown, and
+ * every projectile and hazard is removed once its lifetime runs out. These
+ * rules run in the shared simulation, so the server enforces them for everyone.
+ */
+export class Weapons {
+  static readonly ITEMS: ItemType[] = ['homing', 'lob', 'oil', 'mine'];
+
+  // Ticks before the same weapon can be fired again
+  static readonly COOLDOWN_TICKS: Record<WeaponType, number> = {
+    bottle: 15,
+    homing: 60,
+    lob: 60,
+    oil: 30,
+    mine: 30
+  };
+
+  // Ticks a projectile or hazard stays in the race
+  static readonly LIFETIME_TICKS: Record<ProjectileKind | HazardKind, number> = {
+    bottle: 90,
+    homing: 180,
+    lob: 60,
+    oil: 900,
+    mine: 1800
+  };
+
+  // With self-hits on, a car's own projectiles and hazards leave it alone for this long
+  static readonly SELF_HIT_GRACE_TICKS = 30;
+
+  static readonly HOMING_SPEED = 9;
+  // Radians a homing bottle can turn per tick
+  static readonly HOMING_TURN_RATE = 0.06;
+  // Only cars within this angle of the thrower's heading can be locked on to
+  static readonly HOMING_LOCK_ANGLE = Math.PI / 3;
+
+  static readonly LOB_SPEED = 6;
+  static readonly LOB_FLIGHT_TICKS = 45;
+  static readonly LOB_SPLASH_RADIUS = 60;
+  static readonly LOB_DAMAGE_MULTIPLIER = 1.5;
+  // Peak height of the arc, used for drawing only
+  static readonly LOB_ARC_HEIGHT = 40;
+
+  // How far behind the car oil and mines are dropped
+  static readonly DROP_DISTANCE = 35;
+  static readonly OIL_RADIUS = 25;
+  static readonly MINE_RADIUS = 10;
+  static readonly MINE_BLAST_RADIUS = 40;
+  static readonly MINE_DAMAGE_MULTIPLIER = 2;
+  static readonly EXPLOSION_KNOCKBACK = 5;
+
+  /**
+   * Throws a plain bottle if the car has one and its cooldown is over
+   */
+  static throwBottle(gameState: GameState, car: Car): SimulationEvent | null {
+    if (car.bottles <= 0 || !this.isReady(car, 'bottle', gameState.tick)) return null;
+
+    gameState.bottles.push(GamePhysics.createBottle(car, gameState.settings.bottleDamage, gameState.tick));
+    car.bottles--;
+    this.startCooldown(car, 'bottle', gameState.tick);
+    return { type: 'throw', playerId: car.playerId };
+  }
+
+  /**
+   * Fires or drops the car's held item and empties its slot
+   */
+  static activateItem(gameState: GameState, car: Car): SimulationEvent | null {
+    const item = car.heldItem;
+    if (!item || !this.isReady(car, item, gameState.tick)) return null;
+
+    const damage = gameState.settings.bottleDamage;
+    switch (item) {
+      case 'homing':
+        gameState.bottles.push(this.createHomingBottle(gameState, car, damage));
+        break;
+      case 'lob':
+        gameState.bottles.push(this.createLobbedBottle(gameState, car, Math.round(damage * this.LOB_DAMAGE_MULTIPLIER)));
+        break;
+      case 'oil':
+      case 'mine':
+        gameState.hazards.push(this.dropHazard(gameState, car, item));
+        break;
+    }
+
+    car.heldItem = null;
+    this.startCooldown(car, item, gameState.tick);
+    return { type: 'item', playerId: car.playerId, item };
+  }
+
+  /**
+   * Whether a weapon's cooldown has run out
+   */
+  static isReady(car: Car, weapon: WeaponType, tick: number): boolean {
+    return tick >= (car.weaponReadyAt[weapon] ?? 0);
+  }
+
+  private static startCooldown(car: Car, weapon: WeaponType, tick: number): void {
+    car.weaponReadyAt[weapon] = tick + this.COOLDOWN_TICKS[weapon];
+  }
+
+  /**
+   * Whether a projectile or hazard has outlived its lifetime
+   */
+  static hasExpired(source: Bottle | Hazard, tick: number): boolean {
+    return tick - source.spawnTick >= this.LIFETIME_TICKS[source.kind];
+  }
+
+  /**
+   * Whether a projectile or hazard may hurt a car. Opponents always can and
+   * teammates only with friendly fire on; the owner only with self-hits on,
+   * and not until it has had time to get clear.
+   */
+  static canHit(gameState: GameState, source: Bottle | Hazard, car: Car): boolean {
+    if (!GamePhysics.isRacing(car)) return false;
+    if (source.playerId !== car.playerId) {
+      const owner = gameState.players.find(other => other.playerId === source.playerId);
+      return !owner || !Teams.isFriendly(gameState.settings, owner, car);
+    }
+
+    return gameState.settings.selfHit && gameState.tick - source.spawnTick >= this.SELF_HIT_GRACE_TICKS;
+  }
+
+  /**
+   * A bottle that steers towards the nearest opponent in front of the thrower
+   */
+  static createHomingBottle(gameState: GameState, car: Car, damage: number): Bottle {
+    const target = this.findHomingTarget(gameState, car);
+
+    return {
+      ...GamePhysics.createBottle(car, damage, gameState.tick, 'homing'),
+      velocity: {
+        x: Math.cos(car.rotation) * this.HOMING_SPEED,
+        y: Math.sin(car.rotation) * this.HOMING_SPEED
+      },
+      targetId: target ? target.playerId : null
+    };
+  }
+
+  /**
+   * A bottle thrown in an arc over walls and cars that splashes where it lands
+   */
+  static createLobbedBottle(gameState: GameState, car: Car, damage: number): Bottle {
+    return {
+      ...GamePhysics.createBottle(car, damage, gameState.tick, 'lob'),
+      velocity: {
+        x: Math.cos(car.rotation) * this.LOB_SPEED + car.velocity.x,
+        y: Math.sin(car.rotation) * this.LOB_SPEED + car.velocity.y
+      },
+      flightTicks: this.LOB_FLIGHT_TICKS,
+      totalFlightTicks: this.LOB_FLIGHT_TICKS
+    };
+  }
+
+  /**
+   * Leaves an oil slick or mine on the track behind the car
+   */
+  static dropHazard(gameState: GameState, car: Car, kind: HazardKind): Hazard {
+    return {
+      id: `${kind}_${gameState.tick}_${car.playerId}`,
+      kind,
+      spawnTick: gameState.tick,
+      position: {
+        x: car.position.x - Math.cos(car.rotation) * this.DROP_DISTANCE,
+        y: car.position.y - Math.sin(car.rotation) * this.DROP_DISTANCE
+      },
+      playerId: car.playerId
+    };
+  }
+
+  /**
+   * Closest opponent within the lock-on angle of the car's heading. Homing
+   * bottles never lock on to teammates.
+   */
+  static findHomingTarget(gameState: GameState, car: Car): Car | null {
+    let best: Car | null = null;
+    let bestDistance = Infinity;
+
+    gameState.players.forEach(other => {
+      if (other.playerId === car.playerId || !GamePhysics.isRacing(other) || Teams.areTeammates(car, other)) return;
+
+      const angle = Math.atan2(other.position.y - car.position.y, other.position.x - car.position.x);
+      if (Math.abs(this.angleBetween(car.rotation, angle)) > this.HOMING_LOCK_ANGLE) return;
+
+      const distance = Math.hypot(other.position.x - car.position.x, other.position.y - car.position.y);
+      if (distance < bestDistance) {
+        best = other;
+        bestDistance = distance;
+      }
+    });
+
+    return best;
+  }
+
+  /**
+   * Turns a homing bottle towards its target, keeping its speed. Once the
+   * target is wrecked or gone the bottle flies straight on.
+   */
+  static steerHomingBottle(bottle: Bottle, gameState: GameState): void {
+    const target = gameState.players.find(car => car.playerId === bottle.targetId && GamePhysics.isRacing(car));
+    if (!target) return;
+
+    const speed = Math.hypot(bottle.velocity.x, bottle.velocity.y);
+    const heading = Math.atan2(bottle.velocity.y, bottle.velocity.x);
+    const desired = Math.atan2(target.position.y - bottle.position.y, target.position.x - bottle.position.x);
+    const turn = Math.max(-this.HOMING_TURN_RATE, Math.min(this.HOMING_TURN_RATE, this.angleBetween(heading, desired)));
+
+    bottle.velocity.x = Math.cos(heading + turn) * speed;
+    bottle.velocity.y = Math.sin(heading + turn) * speed;
+  }
+
+  /**
+   * Moves a lobbed bottle along its flight. Returns true on the tick it lands.
+   */
+  static updateLobbedBottle(bottle: Bottle): boolean {
+    bottle.position.x += bottle.velocity.x;
+    bottle.position.y += bottle.velocity.y;
+    bottle.flightTicks = (bottle.flightTicks ?? 0) - 1;
+    return bottle.flightTicks <= 0;
+  }
+
+  /**
+   * Height of a lobbed bottle above the track, peaking halfway through its flight
+   */
+  static getLobHeight(bottle: Bottle): number {
+    if (!bottle.totalFlightTicks) return 0;
+
+    const progress = 1 - (bottle.flightTicks ?? 0) / bottle.totalFlightTicks;
+    return 4 * this.LOB_ARC_HEIGHT * progress * (1 - progress);
+  }
+
+  /**
+   * Damages every car the source can hit within the blast radius around it.
+   * Returns the cars that took damage; shielded cars shrug it off.
+   */
+  static explode(gameState: GameState, source: Bottle | Hazard, radius: number, damage: number): Car[] {
+    const knockback = gameState.settings.bottleKnockback ? this.EXPLOSION_KNOCKBACK : 0;
+
+    return gameState.players.filter(car =>
+      this.canHit(gameState, source, car) &&
+      GamePhysics.checkCollision(source.position, car.position, radius, GamePhysics.CAR_RADIUS) &&
+      GamePhysics.applyHit(car, damage, source.position, knockback)
+    );
+  }
+
+  /**
+   * First car the hazard can hit that is touching it
+   */
+  static findCarOnHazard(gameState: GameState, hazard: Hazard): Car | undefined {
+    const radius = hazard.kind === 'oil' ? this.OIL_RADIUS : this.MINE_RADIUS;
+
+    return gameState.players.find(car =>
+      this.canHit(gameState, hazard, car) &&
+      GamePhysics.checkCollision(hazard.position, car.position, radius, GamePhysics.CAR_BODY_RADIUS)
+    );
+  }
+
+  /**
+   * Signed smallest angle from `from` to `to`
+   */
+  private static angleBetween(from: number, to: number): number {
+    return Math.atan2(Math.sin(to - from), Math.cos(to - from));
+  }
+}